@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { DiagnosticPathSegment, ImportDiagnostic } from '../types/diagnostics';
+
+interface DiagnosticsPanelProps {
+    diagnostics: ImportDiagnostic[];
+    onSelect: (diagnostic: ImportDiagnostic) => void;
+}
+
+const severityColors = {
+    error: '#d32f2f',
+    warning: '#f57c00',
+};
+
+function formatPath(path: DiagnosticPathSegment[]): string {
+    if (path.length === 0) return 'Project';
+    return path.map(segment => `${segment.entity} ${segment.number ?? segment.id}`).join(' → ');
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, onSelect }) => {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    if (diagnostics.length === 0) {
+        return null;
+    }
+
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: '20px',
+            left: '20px',
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            width: '380px',
+            zIndex: 1000,
+            color: '#333',
+        }}>
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    width: '100%',
+                    padding: '12px 16px',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                    fontWeight: 'bold',
+                    color: 'black',
+                }}
+            >
+                <span>Project issues</span>
+                <span>
+                    <span style={{ color: severityColors.error }}>{errorCount} errors</span>
+                    {' · '}
+                    <span style={{ color: severityColors.warning }}>{warningCount} warnings</span>
+                    {isExpanded ? ' ▾' : ' ▸'}
+                </span>
+            </button>
+            {isExpanded && (
+                <div style={{ maxHeight: '40vh', overflow: 'auto', borderTop: '1px solid #e0e0e0' }}>
+                    {diagnostics.map((diagnostic, index) => {
+                        const canZoom = diagnostic.location !== undefined;
+                        return (
+                            <div
+                                key={index}
+                                onClick={canZoom ? () => onSelect(diagnostic) : undefined}
+                                title={canZoom ? 'Zoom to location' : 'No usable coordinates'}
+                                style={{
+                                    padding: '8px 16px',
+                                    borderBottom: '1px solid #f0f0f0',
+                                    cursor: canZoom ? 'pointer' : 'default',
+                                    fontSize: '13px',
+                                }}
+                            >
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                    <span style={{
+                                        width: '8px',
+                                        height: '8px',
+                                        borderRadius: '50%',
+                                        backgroundColor: severityColors[diagnostic.severity],
+                                        flexShrink: 0,
+                                    }} />
+                                    <span style={{ fontWeight: 'bold' }}>{formatPath(diagnostic.path)}</span>
+                                </div>
+                                <div style={{ marginLeft: '16px', color: '#555' }}>{diagnostic.message}</div>
+                                {diagnostic.path.length > 0 && (
+                                    <div style={{ marginLeft: '16px', color: '#999', fontSize: '11px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                        {diagnostic.path.map(segment => segment.id).join(' / ')}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
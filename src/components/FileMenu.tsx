@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getRecentFiles } from '../utils/recentFiles';
+
+interface FileMenuProps {
+    onOpenFile: (file: File) => void;
+    onOpenRecent: (key: string, name: string) => void;
+    onExport?: () => void;
+    onImportGeoJson: (file: File) => void;
+    onExportGeoJson?: () => void;
+    onImportDxf: (file: File) => void;
+    onExportDxf?: () => void;
+    onExportSvg: (mode: 'full' | 'view') => void;
+    onShowQuantityReport?: () => void;
+    onRunValidation?: () => void;
+    // Bumped by the parent whenever a file is opened so the recent list refreshes
+    recentVersion: number;
+}
+
+const itemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+    fontSize: '14px',
+    whiteSpace: 'nowrap',
+};
+
+export const FileMenu: React.FC<FileMenuProps> = ({ onOpenFile, onOpenRecent, onExport, onImportGeoJson, onExportGeoJson, onImportDxf, onExportDxf, onExportSvg, onShowQuantityReport, onRunValidation, recentVersion }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [recentFiles, setRecentFiles] = useState<Array<{ key: string; name: string; openedAt: number }>>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const geoJsonInputRef = useRef<HTMLInputElement>(null);
+    const dxfInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        getRecentFiles()
+            .then(setRecentFiles)
+            .catch((error) => console.warn('Could not read recent files:', error));
+    }, [recentVersion]);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, onFile: (file: File) => void) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            onFile(file);
+        }
+        // Allow re-opening the same file
+        event.target.value = '';
+        setIsOpen(false);
+    };
+
+    return (
+        <div style={{ position: 'relative' }}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                style={{
+                    padding: '8px 16px',
+                    backgroundColor: isOpen ? '#0066ff' : '#f0f0f0',
+                    color: isOpen ? 'white' : '#333',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: isOpen ? 'bold' : 'normal',
+                }}
+            >
+                File
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => handleFileChange(e, onOpenFile)}
+                style={{ display: 'none' }}
+            />
+            <input
+                ref={geoJsonInputRef}
+                type="file"
+                accept=".geojson,.json,application/geo+json"
+                onChange={(e) => handleFileChange(e, onImportGeoJson)}
+                style={{ display: 'none' }}
+            />
+            <input
+                ref={dxfInputRef}
+                type="file"
+                accept=".dxf,application/dxf"
+                onChange={(e) => handleFileChange(e, onImportDxf)}
+                style={{ display: 'none' }}
+            />
+            {isOpen && (
+                <div style={{
+                    position: 'absolute',
+                    top: 'calc(100% + 8px)',
+                    left: 0,
+                    backgroundColor: 'white',
+                    borderRadius: '8px',
+                    boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+                    padding: '6px 0',
+                    minWidth: '220px',
+                }}>
+                    <button style={itemStyle} onClick={() => fileInputRef.current?.click()}>
+                        Open...
+                    </button>
+                    {onExport && (
+                        <button
+                            style={itemStyle}
+                            onClick={() => {
+                                onExport();
+                                setIsOpen(false);
+                            }}
+                        >
+                            Export JSON
+                        </button>
+                    )}
+                    <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '6px 0' }} />
+                    <button style={itemStyle} onClick={() => geoJsonInputRef.current?.click()}>
+                        Import GeoJSON...
+                    </button>
+                    {onExportGeoJson && (
+                        <button
+                            style={itemStyle}
+                            onClick={() => {
+                                onExportGeoJson();
+                                setIsOpen(false);
+                            }}
+                        >
+                            Export GeoJSON
+                        </button>
+                    )}
+                    <button style={itemStyle} onClick={() => dxfInputRef.current?.click()}>
+                        Import DXF...
+                    </button>
+                    {onExportDxf && (
+                        <button
+                            style={itemStyle}
+                            onClick={() => {
+                                onExportDxf();
+                                setIsOpen(false);
+                            }}
+                        >
+                            Export DXF
+                        </button>
+                    )}
+                    <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '6px 0' }} />
+                    <button
+                        style={itemStyle}
+                        onClick={() => {
+                            onExportSvg('full');
+                            setIsOpen(false);
+                        }}
+                    >
+                        Export SVG (whole project)
+                    </button>
+                    <button
+                        style={itemStyle}
+                        onClick={() => {
+                            onExportSvg('view');
+                            setIsOpen(false);
+                        }}
+                    >
+                        Export SVG (current view)
+                    </button>
+                    {(onShowQuantityReport || onRunValidation) && (
+                        <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '6px 0' }} />
+                    )}
+                    {onShowQuantityReport && (
+                        <button
+                            style={itemStyle}
+                            onClick={() => {
+                                onShowQuantityReport();
+                                setIsOpen(false);
+                            }}
+                        >
+                            Quantity take-off...
+                        </button>
+                    )}
+                    {onRunValidation && (
+                        <button
+                            style={itemStyle}
+                            onClick={() => {
+                                onRunValidation();
+                                setIsOpen(false);
+                            }}
+                        >
+                            Check geometry...
+                        </button>
+                    )}
+                    {recentFiles.length > 0 && (
+                        <>
+                            <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '6px 0' }} />
+                            <div style={{ padding: '4px 12px', fontSize: '12px', fontWeight: 'bold', color: '#666' }}>
+                                Recent
+                            </div>
+                            {recentFiles.map(({ key, name, openedAt }) => (
+                                <button
+                                    key={key}
+                                    style={itemStyle}
+                                    title={`Opened ${new Date(openedAt).toLocaleString()}`}
+                                    onClick={() => {
+                                        onOpenRecent(key, name);
+                                        setIsOpen(false);
+                                    }}
+                                >
+                                    {name}
+                                    {/* Different files can share a name, so tell them apart by when they were opened */}
+                                    {recentFiles.some(other => other.key !== key && other.name === name) && (
+                                        <span style={{ color: '#999', fontSize: '11px' }}> · {new Date(openedAt).toLocaleString()}</span>
+                                    )}
+                                </button>
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import type { ShapeManager } from '../pixi/ShapeManager';
+import type { EntityType } from '../types/hierarchy';
+import { entityLayerKey } from '../model/layers';
+
+// Rows are rebuilt from the hierarchy on every render, so the panel follows its parent's re-renders
+interface LayerPanelProps {
+    manager: ShapeManager | null;
+}
+
+interface LayerItem {
+    key: string;
+    name: string;
+    // Resolved lazily so collapsed rows don't walk thousands of blocks
+    children?: () => LayerItem[];
+}
+
+interface LayerRowProps {
+    manager: ShapeManager;
+    item: LayerItem;
+    depth: number;
+    onChange: () => void;
+}
+
+const CATEGORIES: Array<{ type: EntityType; name: string }> = [
+    { type: 'subarea', name: 'SubAreas' },
+    { type: 'block', name: 'Blocks' },
+    { type: 'lateral', name: 'Laterals' },
+    { type: 'shape', name: 'Other shapes' },
+];
+
+const LayerRow: React.FC<LayerRowProps> = ({ manager, item, depth, onChange }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const { key: layerKey, name, children } = item;
+    const state = manager.getLayerState(layerKey);
+
+    return (
+        <>
+            <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '4px 0',
+                paddingLeft: `${depth * 16}px`,
+                fontSize: '13px',
+                opacity: state.visible ? 1 : 0.5,
+            }}>
+                <button
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    disabled={!children}
+                    style={{
+                        width: '16px',
+                        border: 'none',
+                        backgroundColor: 'transparent',
+                        cursor: children ? 'pointer' : 'default',
+                        visibility: children ? 'visible' : 'hidden',
+                        color: '#333',
+                    }}
+                >
+                    {isExpanded ? '▾' : '▸'}
+                </button>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{name}</span>
+                <input
+                    type="checkbox"
+                    title="Visible"
+                    checked={state.visible}
+                    onChange={(e) => {
+                        manager.setLayerState(layerKey, { visible: e.target.checked });
+                        onChange();
+                    }}
+                />
+                <input
+                    type="checkbox"
+                    title="Locked"
+                    checked={state.locked}
+                    onChange={(e) => {
+                        manager.setLayerState(layerKey, { locked: e.target.checked });
+                        onChange();
+                    }}
+                />
+                <input
+                    type="range"
+                    title={`Opacity: ${state.opacity.toFixed(2)}`}
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={state.opacity}
+                    onChange={(e) => {
+                        manager.setLayerState(layerKey, { opacity: Number(e.target.value) });
+                        onChange();
+                    }}
+                    style={{ width: '60px' }}
+                />
+            </div>
+            {isExpanded && children?.().map(child => (
+                <LayerRow
+                    key={child.key}
+                    manager={manager}
+                    item={child}
+                    depth={depth + 1}
+                    onChange={onChange}
+                />
+            ))}
+        </>
+    );
+};
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({ manager }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [, setRevision] = useState(0);
+
+    if (!manager) {
+        return null;
+    }
+
+    const hierarchy = manager.getHierarchy();
+    const nameOf = (id: string, fallback: string) => {
+        const node = hierarchy.get(id);
+        return manager.getShapeById(id)?.label ?? `${fallback} ${node?.number ?? node?.sourceId ?? id}`;
+    };
+
+    // Only SubAreas and their Blocks get their own rows; laterals are toggled per category or via their block
+    const subAreaRows = (): LayerItem[] => hierarchy.getIdsOfType('subarea').map(subAreaId => ({
+        key: subAreaId,
+        name: nameOf(subAreaId, 'SubArea'),
+        children: () => hierarchy.getChildIds(subAreaId, 'block').map(blockId => ({
+            key: blockId,
+            name: nameOf(blockId, 'Block'),
+        })),
+    }));
+
+    const categories = CATEGORIES.filter(({ type }) => hierarchy.getIdsOfType(type).length > 0);
+
+    return (
+        <div style={{
+            position: 'fixed',
+            top: '80px',
+            left: '20px',
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            width: '300px',
+            zIndex: 1000,
+            color: '#333',
+        }}>
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    width: '100%',
+                    padding: '12px 16px',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                    fontWeight: 'bold',
+                    color: 'black',
+                }}
+            >
+                <span>Layers</span>
+                <span>{isExpanded ? '▾' : '▸'}</span>
+            </button>
+            {isExpanded && (
+                <div style={{ maxHeight: '50vh', overflow: 'auto', padding: '0 12px 12px', borderTop: '1px solid #e0e0e0' }}>
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px', fontSize: '11px', color: '#999', padding: '6px 0', paddingRight: '4px' }}>
+                        <span>Show</span>
+                        <span>Lock</span>
+                        <span style={{ width: '60px', textAlign: 'center' }}>Opacity</span>
+                    </div>
+                    {categories.map(({ type, name }) => (
+                        <LayerRow
+                            key={type}
+                            manager={manager}
+                            item={{
+                                key: entityLayerKey(type),
+                                name,
+                                children: type === 'subarea' ? subAreaRows : undefined,
+                            }}
+                            depth={0}
+                            onChange={() => setRevision(revision => revision + 1)}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { Measurement } from '../pixi/MeasureTool';
+import { formatAngle, formatArea, formatLength, measurePath } from '../utils/measurement';
+
+interface MeasurePanelProps {
+    measurement: Measurement | null;
+    imperial: boolean;
+    onImperialChange: (imperial: boolean) => void;
+}
+
+const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', gap: '16px', fontSize: '13px', padding: '2px 0' };
+
+export const MeasurePanel: React.FC<MeasurePanelProps> = ({ measurement, imperial, onImperialChange }) => {
+    const result = measurement && measurement.points.length >= 2 ? measurePath(measurement.points, measurement.closed) : null;
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: '20px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            backgroundColor: 'white',
+            padding: '12px 16px',
+            borderRadius: '8px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            minWidth: '280px',
+            maxHeight: '40vh',
+            overflow: 'auto',
+            zIndex: 1000,
+            color: '#333',
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <strong style={{ fontSize: '14px', color: 'black' }}>Measure</strong>
+                <label style={{ fontSize: '12px', display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                    <input type="checkbox" checked={imperial} onChange={(e) => onImperialChange(e.target.checked)} />
+                    ft / acres
+                </label>
+            </div>
+
+            {!result && (
+                <div style={{ fontSize: '13px', color: '#666' }}>
+                    Click to place points, double-click or Enter to finish. Click the first point to measure an area.
+                </div>
+            )}
+
+            {result && (
+                <>
+                    {result.area !== undefined ? (
+                        <>
+                            <div style={rowStyle}><span>Area</span><span>{formatArea(result.area, imperial)}</span></div>
+                            <div style={rowStyle}><span>Perimeter</span><span>{formatLength(result.length, imperial)}</span></div>
+                        </>
+                    ) : (
+                        <div style={rowStyle}><span>Distance</span><span>{formatLength(result.length, imperial)}</span></div>
+                    )}
+                    {result.segments.length > 1 && (
+                        <div style={{ marginTop: '6px', borderTop: '1px solid #e0e0e0', paddingTop: '6px' }}>
+                            {result.segments.map((segment, index) => (
+                                <div key={index} style={{ ...rowStyle, color: '#666' }}>
+                                    <span>Segment {index + 1}</span>
+                                    <span>{formatLength(segment, imperial)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {result.angles.length > 0 && (
+                        <div style={{ marginTop: '6px', borderTop: '1px solid #e0e0e0', paddingTop: '6px' }}>
+                            {result.angles.map((angle, index) => (
+                                <div key={index} style={{ ...rowStyle, color: '#666' }}>
+                                    <span>Angle at point {result.area !== undefined ? index + 1 : index + 2}</span>
+                                    <span>{formatAngle(angle)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,36 +1,137 @@
-import {useEffect, useRef, useState} from 'react';
+import {useEffect, useMemo, useRef, useState} from 'react';
+import type {DragEvent} from 'react';
 import {usePixiApp} from '../hooks/usePixiApp';
 import {Viewport} from 'pixi-viewport';
 import {Graphics} from 'pixi.js';
+import type {FederatedPointerEvent} from 'pixi.js';
 import {ShapeManager} from '../pixi/ShapeManager';
-import {calculateBounds, parseIrrigationProject} from '../utils/jsonParser';
+import {MarqueeSelection} from '../pixi/MarqueeSelection';
+import {LassoSelection} from '../pixi/LassoSelection';
+import {PathDrawing} from '../pixi/PathDrawing';
+import {SnapEngine} from '../pixi/SnapEngine';
+import {TransformGizmo} from '../pixi/TransformGizmo';
+import {MeasureTool} from '../pixi/MeasureTool';
+import {ValidationOverlay} from '../pixi/ValidationOverlay';
+import type {Measurement} from '../pixi/MeasureTool';
+import {calculateBounds, parseIrrigationProject, parseLateralStyle} from '../utils/jsonParser';
+import {generateLaterals} from '../utils/lateralGenerator';
+import type {LateralOptions} from '../utils/lateralGenerator';
+import {polygonBoolean, splitPolygonByPolyline} from '../utils/polygonBoolean';
+import type {BooleanOperation} from '../utils/polygonBoolean';
+import {bufferPolyline, offsetPolygon} from '../utils/offset';
+import type {OffsetJoin} from '../utils/offset';
+import {validateShapes} from '../utils/validation';
 import {generateStressTestShapes} from '../utils/stressTestGenerator';
-import projectDataRaw from '../data/project.json';
+import {serializeIrrigationProject} from '../utils/projectSerializer';
+import {downloadFile} from '../utils/download';
+import {parseGeoJson, shapesToGeoJson} from '../utils/geoJson';
+import {parseDxf, shapesToDxf} from '../utils/dxf';
+import {shapesToSvg} from '../utils/svgExport';
+import {parseProjectText} from '../utils/projectLoader';
+import {addRecentFile, getRecentFileContent} from '../utils/recentFiles';
+import {parseClipboardText, shapesToClipboardText} from '../utils/shapeClipboard';
 import {Toolbar} from './Toolbar';
+import {FileMenu} from './FileMenu';
+import {SnapMenu} from './SnapMenu';
+import {MeasurePanel} from './MeasurePanel';
+import {QuantityReport} from './QuantityReport';
+import {ValidationPanel} from './ValidationPanel';
+import {DiagnosticsPanel} from './DiagnosticsPanel';
+import {LayerPanel} from './LayerPanel';
+import {PropertiesPanel} from './PropertiesPanel';
+import {zoomToBounds} from '../pixi/viewportUtils';
 import {FPSCounter} from './FPSCounter';
 import type {DrawMode} from './Toolbar';
-import {STRESS_TEST_MODE, STRESS_TEST_COUNT, STRESS_TEST_AREA, VIEWPORT_CONFIG} from '../config/constants';
-import type {IrrigationProject} from '../types/shapes';
-
-const projectData = projectDataRaw as IrrigationProject;
+import {COPY_CONFIG, SNAP_CONFIG, STRESS_TEST_MODE, STRESS_TEST_COUNT, STRESS_TEST_AREA, SVG_EXPORT_CONFIG, VIEWPORT_CONFIG} from '../config/constants';
+import type {Coordinate, IrrigationProject, Shape, ShapeStyle, ShapeTransform, ShapeUpdate} from '../types/shapes';
+import type {ImportDiagnostic} from '../types/diagnostics';
+import type {SnapSettings} from '../types/snapping';
+import type {ValidationIssue} from '../types/validation';
+
+// Undo history labels
+const OPERATION_LABELS: Record<BooleanOperation, string> = {
+    union: 'Union',
+    difference: 'Difference',
+    intersection: 'Intersect',
+    xor: 'XOR',
+};
+
+// Selection tools use the left mouse button for marquee/lasso/fence, so panning moves to middle/right
+const isSelectionTool = (mode: DrawMode) => mode === 'select' || mode === 'lasso' || mode === 'fence';
+const panButtons = (mode: DrawMode) => isSelectionTool(mode) ? 'middle-right' : 'all';
+
+// Keyboard shortcuts and clipboard events leave text fields their native behaviour
+const isTextField = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+};
 
 export const PixiCanvas = () => {
     const {appRef, containerRef, isReady} = usePixiApp();
     const shapeManagerRef = useRef<ShapeManager | null>(null);
     const viewportRef = useRef<Viewport | null>(null);
+    const lassoRef = useRef<LassoSelection | null>(null);
+    const pathDrawingRef = useRef<PathDrawing | null>(null);
+    const snapEngineRef = useRef<SnapEngine | null>(null);
+    const gizmoRef = useRef<TransformGizmo | null>(null);
+    const measureToolRef = useRef<MeasureTool | null>(null);
+    const validationOverlayRef = useRef<ValidationOverlay | null>(null);
+    const [measurement, setMeasurement] = useState<Measurement | null>(null);
+    const [imperialUnits, setImperialUnits] = useState(false);
+    const [carryChildren, setCarryChildren] = useState(false);
+    const [snapSettings, setSnapSettings] = useState<SnapSettings>(SNAP_CONFIG.defaults);
+    const snapSettingsRef = useRef(snapSettings);
     const [drawMode, setDrawMode] = useState<DrawMode>('select');
     const drawModeRef = useRef<DrawMode>('select');
+    const [project, setProject] = useState<IrrigationProject | null>(null);
+    const [recentVersion, setRecentVersion] = useState(0);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [activeManager, setActiveManager] = useState<ShapeManager | null>(null);
+    const [sceneVersion, setSceneVersion] = useState(0);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    // Shapes are mutated in place, so edits only need a re-render
+    const [shapesVersion, setShapesVersion] = useState(0);
+    const [showQuantityReport, setShowQuantityReport] = useState(false);
+    // version is the scene + shapes version the check ran at, to tell when the list is out of date
+    const [validation, setValidation] = useState<{ issues: ValidationIssue[]; version: number } | null>(null);
+    const [validationIndex, setValidationIndex] = useState(-1);
+    const [exportDiagnostics, setExportDiagnostics] = useState<ImportDiagnostic[]>([]);
+    const [, setHistoryVersion] = useState(0);
+    const importShapesRef = useRef<((shapes: Shape[]) => void) | null>(null);
+    const parsedProject = useMemo(() => project ? parseIrrigationProject(project) : null, [project]);
+
+    useEffect(() => {
+        snapSettingsRef.current = snapSettings;
+        snapEngineRef.current?.setSettings(snapSettings);
+    }, [snapSettings]);
 
     // Sync drawMode with ref
     useEffect(() => {
         drawModeRef.current = drawMode;
+        viewportRef.current?.drag({mouseButtons: panButtons(drawMode)});
+        lassoRef.current?.cancel();
+        pathDrawingRef.current?.cancel();
+        if (drawMode !== 'measure') measureToolRef.current?.cancel();
+        snapEngineRef.current?.clearMarker();
+        // Only select mode interacts with shapes; the other tools click through them onto the canvas
+        shapeManagerRef.current?.setShapesInteractive(drawMode === 'select');
+        gizmoRef.current?.setEnabled(drawMode === 'select');
     }, [drawMode]);
 
+    // A reloaded project gets a new manager, which starts with the option off
+    useEffect(() => {
+        activeManager?.setCarryChildren(carryChildren);
+    }, [activeManager, carryChildren]);
+
+    useEffect(() => {
+        validationOverlayRef.current?.show(validation?.issues ?? [], validationIndex);
+    }, [validation, validationIndex]);
+
     useEffect(() => {
         if (!isReady || !appRef.current) return;
 
         // Generate shapes based on mode
-        const shapes = STRESS_TEST_MODE
+        const {shapes, hierarchy} = STRESS_TEST_MODE
             ? generateStressTestShapes({
                 targetShapeCount: STRESS_TEST_COUNT,
                 areaWidth: STRESS_TEST_AREA.width,
@@ -38,7 +139,7 @@ export const PixiCanvas = () => {
                 baseX: STRESS_TEST_AREA.baseX,
                 baseY: STRESS_TEST_AREA.baseY,
             })
-            : parseIrrigationProject(projectData);
+            : parsedProject ?? {shapes: [], hierarchy: []};
 
         console.log(`Loaded ${shapes.length} shapes in ${STRESS_TEST_MODE ? 'STRESS TEST' : 'NORMAL'} mode`);
 
@@ -58,13 +159,26 @@ export const PixiCanvas = () => {
         viewportRef.current = viewport;
 
         viewport
-            .drag()
+            .drag({mouseButtons: panButtons(drawModeRef.current)})
             .pinch() // Two-finger pinch zoom
             .wheel(VIEWPORT_CONFIG.wheel)
             .clampZoom(VIEWPORT_CONFIG.zoom);
 
         const manager = new ShapeManager(viewport);
         shapeManagerRef.current = manager;
+        const marquee = new MarqueeSelection(viewport, manager);
+        const lasso = new LassoSelection(viewport, manager);
+        lassoRef.current = lasso;
+        // Only geometry that's actually drawn can be snapped to, and locked layers are left alone
+        const snapEngine = new SnapEngine(viewport, (bounds) =>
+            manager.getShapesInBounds(bounds).filter((shape) => manager.isInScene(shape.id) && !manager.isLocked(shape.id)));
+        snapEngine.setSettings(snapSettingsRef.current);
+        snapEngineRef.current = snapEngine;
+        manager.setSnapEngine(snapEngine);
+        const gizmo = new TransformGizmo(viewport, manager);
+        gizmo.setEnabled(drawModeRef.current === 'select');
+        gizmoRef.current = gizmo;
+        manager.setShapesInteractive(drawModeRef.current === 'select');
 
         // Culling function to hide off-screen shapes
         let cullingScheduled = false;
@@ -92,30 +206,62 @@ export const PixiCanvas = () => {
 
         // Add selection change callback
         manager.onSelectionChanged((selectedIds) => {
-            console.log('Selected shapes:', selectedIds);
+            setSelectedIds(selectedIds);
+            gizmo.refresh();
         });
 
+        manager.onShapesChanged(() => {
+            setShapesVersion((version) => version + 1);
+            gizmo.refresh();
+            validationOverlayRef.current?.refresh();
+        });
+
+        manager.onHistoryChanged(() => {
+            setHistoryVersion((version) => version + 1);
+        });
+
+        // A press on a selected shape may start a group drag, so narrowing or deselecting waits for the release
+        let pendingClick: { shapeId: string; multiSelect: boolean } | null = null;
+
         // Helper function to add selection handler to shapes
         const addShapeSelectionHandler = (shapeId: string, graphics: Graphics) => {
             graphics.on('pointerdown', (event) => {
                 event.stopPropagation();
                 const multiSelect = event.ctrlKey || event.metaKey;
 
-                if (multiSelect && manager.isSelected(shapeId)) {
-                    manager.deselectShape(shapeId);
+                if (manager.isSelected(shapeId)) {
+                    pendingClick = {shapeId, multiSelect};
+                } else if (event.pointerType === 'mouse' && event.button === 0) {
+                    // Dragging from an unselected shape draws a marquee, so one can start inside a filled SubArea or Block
+                    marquee.begin(event, () => manager.selectShape(shapeId, multiSelect));
                 } else {
                     manager.selectShape(shapeId, multiSelect);
                 }
             });
         };
 
+        // Only a press that didn't move anything counts as a click on the selected shape
+        const resolvePendingClick = (moved: boolean) => {
+            const click = pendingClick;
+            pendingClick = null;
+            if (!click || moved) return;
+
+            if (click.multiSelect) {
+                manager.deselectShape(click.shapeId);
+            } else {
+                manager.selectShape(click.shapeId, false);
+            }
+        };
+
+        manager.setHierarchy(hierarchy);
+
+        // Add click handler for selection, also for shapes created or restored later
+        manager.onShapeAdded(addShapeSelectionHandler);
+
         console.time('Adding shapes');
         shapes.forEach((shape) => {
             const graphics = manager.addShape(shape);
 
-            // Add click handler for selection
-            addShapeSelectionHandler(shape.id, graphics);
-
             // Enable drag and drop for the shape
             manager.enableDragAndDrop(shape.id, graphics);
         });
@@ -126,49 +272,111 @@ export const PixiCanvas = () => {
         manager.buildSpatialIndex();
         console.timeEnd('Building spatial index');
 
+        setActiveManager(manager);
+
         // Add global pointer move handler for drag/resize
         viewport.on('pointermove', (event) => {
             manager.handlePointerMove(event);
+            gizmo.move(event);
+            // Keep the gizmo around shapes that are being dragged or reshaped
+            if (manager.isEditing() && !gizmo.isActive()) gizmo.refresh();
+            marquee.move(event);
+            lasso.move(event);
+
+            // Preview where a drawing click would land
+            const currentMode = drawModeRef.current;
+            if (currentMode === 'polygon' || currentMode === 'line' || currentMode === 'point') {
+                const from = pathDrawing.lastPoint() ?? undefined;
+                pathDrawing.move(snapEngine.snapPoint(viewport.toLocal(event.global), {from}));
+            } else if (currentMode === 'measure') {
+                const from = measureTool.lastPoint() ?? undefined;
+                measureTool.move(snapEngine.snapPoint(viewport.toLocal(event.global), {from}));
+            }
         });
 
         // Add global pointer up handler
-        viewport.on('pointerup', () => {
-            manager.handlePointerUp();
+        viewport.on('pointerup', (event) => {
+            gizmo.end();
+            resolvePendingClick(manager.handlePointerUp());
+            marquee.end(event);
+            lasso.endLasso(event);
         });
 
-        viewport.on('pointerupoutside', () => {
+        viewport.on('pointerupoutside', (event) => {
+            gizmo.end();
             manager.handlePointerUp();
+            pendingClick = null;
+            marquee.end(event);
+            lasso.endLasso(event);
         });
 
         // Helper function to handle new shape creation
         const handleNewShape = (shapeId: string) => {
-            const graphics = manager.getShape(shapeId)?.graphics;
-            if (graphics) {
-                addShapeSelectionHandler(shapeId, graphics);
-            }
             manager.selectShape(shapeId, false);
             setDrawMode('select');
         };
 
+        const pathDrawing = new PathDrawing(viewport, (kind, points) => {
+            const newShape = kind === 'polygon' ? manager.createNewPolygon(points) : manager.createNewLine(points);
+            handleNewShape(newShape.id);
+        });
+        pathDrawingRef.current = pathDrawing;
+
+        const measureTool = new MeasureTool(viewport, setMeasurement);
+        measureToolRef.current = measureTool;
+        viewport.on('zoomed', () => measureTool.refresh());
+
+        const validationOverlay = new ValidationOverlay(viewport, (id) => manager.getShapeById(id));
+        validationOverlayRef.current = validationOverlay;
+        viewport.on('zoomed', () => validationOverlay.refresh());
+
+        // Vertices are placed on click rather than pointerdown, so dragging still pans while drawing
+        viewport.on('clicked', ({event, world}) => {
+            const currentMode = drawModeRef.current;
+            const pointerEvent = event as FederatedPointerEvent;
+            if ((currentMode === 'polygon' || currentMode === 'line') && pointerEvent.button === 0) {
+                const from = pathDrawing.lastPoint() ?? undefined;
+                pathDrawing.click(currentMode, snapEngine.snapPoint(world, {from}), pointerEvent.global);
+            } else if (currentMode === 'measure' && pointerEvent.button === 0) {
+                const from = measureTool.lastPoint() ?? undefined;
+                measureTool.click(snapEngine.snapPoint(world, {from}), pointerEvent.global);
+            }
+        });
+
         // Add click handler on viewport for deselection or shape creation
         viewport.on('pointerdown', (event) => {
             const localPos = viewport.toLocal(event.global);
             const currentMode = drawModeRef.current;
 
-            if (currentMode === 'polygon') {
-                const newShape = manager.createNewPolygon(localPos.x, localPos.y);
-                handleNewShape(newShape.id);
-            } else if (currentMode === 'line') {
-                const newShape = manager.createNewLine(localPos.x, localPos.y);
-                handleNewShape(newShape.id);
-            } else if (currentMode === 'point') {
-                const newShape = manager.createNewPoint(localPos.x, localPos.y);
+            if (currentMode === 'point') {
+                const position = snapEngine.snapPoint(localPos);
+                snapEngine.clearMarker();
+                const newShape = manager.createNewPoint(position.x, position.y);
                 handleNewShape(newShape.id);
+            } else if (currentMode === 'lasso' || currentMode === 'fence') {
+                if (event.pointerType === 'mouse' && event.button !== 0) return;
+                if (currentMode === 'lasso') {
+                    lasso.beginLasso(event);
+                } else {
+                    lasso.addFencePoint(event);
+                }
             } else if (currentMode === 'select') {
-                manager.clearSelection();
+                // Touch drags pan the view, so only the mouse gets a marquee
+                if (event.pointerType === 'mouse') {
+                    if (event.button === 0) marquee.begin(event);
+                } else {
+                    manager.clearSelection();
+                }
             }
         });
 
+        // Imported layers go on top of the loaded project, after the spatial index exists
+        importShapesRef.current = (importedShapes: Shape[]) => {
+            manager.insertShapes(importedShapes);
+            zoomToBounds(viewport, calculateBounds(importedShapes));
+            setSceneVersion((version) => version + 1);
+        };
+
         viewport.fitWorld(true);
         viewport.moveCenter((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
 
@@ -182,21 +390,530 @@ export const PixiCanvas = () => {
         };
         window.addEventListener('resize', handleResize);
 
+        // Copies are offset by a fixed screen distance whatever the zoom
+        const copyOffset = () => ({x: COPY_CONFIG.offsetPx / viewport.scale.x, y: COPY_CONFIG.offsetPx / viewport.scale.y});
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isTextField(event.target)) return;
+
+            const key = event.key.toLowerCase();
+            if (pathDrawing.isActive() && (key === 'enter' || key === 'escape' || key === 'backspace')) {
+                event.preventDefault();
+                if (key === 'enter') {
+                    pathDrawing.finish();
+                } else if (key === 'escape') {
+                    pathDrawing.cancel();
+                } else {
+                    pathDrawing.removeLastPoint();
+                }
+                return;
+            }
+
+            if (measureTool.isActive() && (key === 'enter' || key === 'backspace')) {
+                event.preventDefault();
+                if (key === 'enter') {
+                    measureTool.finish();
+                } else {
+                    measureTool.removeLastPoint();
+                }
+                return;
+            }
+            if (drawModeRef.current === 'measure' && key === 'escape') {
+                measureTool.cancel();
+                return;
+            }
+
+            if (lasso.isActive() && (key === 'enter' || key === 'escape')) {
+                if (key === 'enter') {
+                    lasso.finish(event);
+                } else {
+                    lasso.cancel();
+                }
+                return;
+            }
+
+            if (key === 'f3') {
+                event.preventDefault();
+                setSnapSettings((settings) => ({...settings, enabled: !settings.enabled}));
+                return;
+            }
+
+            if ((event.ctrlKey || event.metaKey) && key === 'z') {
+                event.preventDefault();
+                if (event.shiftKey) {
+                    manager.redo();
+                } else {
+                    manager.undo();
+                }
+            } else if ((event.ctrlKey || event.metaKey) && key === 'y') {
+                event.preventDefault();
+                manager.redo();
+            } else if ((event.ctrlKey || event.metaKey) && key === 'd') {
+                event.preventDefault();
+                manager.duplicateShapes(manager.getSelectedShapes(), copyOffset());
+            } else if (key === 'delete') {
+                // Drawing tools own the keyboard, and Backspace there edits the path, so never delete shapes mid-drawing
+                const mode = drawModeRef.current;
+                if (pathDrawing.isActive() || mode === 'polygon' || mode === 'line' || mode === 'point' || mode === 'measure') return;
+
+                // A focused vertex handle takes the key before the whole shape does
+                if (!manager.deleteFocusedVertex()) {
+                    manager.deleteShapes(manager.getSelectedShapes());
+                }
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+
+        // Clipboard events rather than the async Clipboard API, so no permission prompt
+        const handleCopy = (event: ClipboardEvent) => {
+            const selected = manager.getSelectedShapes()
+                .map((id) => manager.getShapeById(id))
+                .filter((shape): shape is Shape => shape !== undefined);
+            if (isTextField(event.target) || selected.length === 0 || !event.clipboardData) return;
+
+            event.clipboardData.setData('text/plain', shapesToClipboardText(selected));
+            event.preventDefault();
+        };
+
+        const handlePaste = (event: ClipboardEvent) => {
+            if (isTextField(event.target) || !event.clipboardData) return;
+
+            const pasted = parseClipboardText(event.clipboardData.getData('text/plain'));
+            if (!pasted || pasted.length === 0) return;
+            event.preventDefault();
+
+            // Shapes from another project may be far away; bring them to the middle of the view
+            const pastedBounds = calculateBounds(pasted);
+            const inView = pastedBounds.maxX >= viewport.left && pastedBounds.minX <= viewport.right &&
+                pastedBounds.maxY >= viewport.top && pastedBounds.minY <= viewport.bottom;
+            const offset = inView ? copyOffset() : {
+                x: viewport.center.x - (pastedBounds.minX + pastedBounds.maxX) / 2,
+                y: viewport.center.y - (pastedBounds.minY + pastedBounds.maxY) / 2,
+            };
+            manager.pasteShapes(pasted, offset);
+        };
+        window.addEventListener('copy', handleCopy);
+        window.addEventListener('paste', handlePaste);
+
         return () => {
             window.removeEventListener('resize', handleResize);
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('copy', handleCopy);
+            window.removeEventListener('paste', handlePaste);
+            marquee.destroy();
+            lasso.destroy();
+            lassoRef.current = null;
+            pathDrawing.destroy();
+            pathDrawingRef.current = null;
+            measureTool.destroy();
+            measureToolRef.current = null;
+            validationOverlay.destroy();
+            validationOverlayRef.current = null;
+            setValidation(null);
+            setValidationIndex(-1);
+            snapEngine.destroy();
+            snapEngineRef.current = null;
+            gizmo.destroy();
+            gizmoRef.current = null;
             manager.clear();
             viewport.destroy();
+            shapeManagerRef.current = null;
+            viewportRef.current = null;
+            importShapesRef.current = null;
+            setActiveManager(null);
+            setSelectedIds([]);
         };
-    }, [isReady, appRef]);
+    }, [isReady, appRef, parsedProject]);
+
+    // Changing the project state tears down the current ShapeManager/Viewport and rebuilds them
+    const openProjectText = (name: string, text: string) => {
+        try {
+            setProject(parseProjectText(text));
+            setExportDiagnostics([]);
+        } catch (error) {
+            console.error(`Failed to open ${name}:`, error);
+            window.alert(`Could not open ${name}: ${(error as Error).message}`);
+            return;
+        }
+
+        addRecentFile(name, text)
+            .then(() => setRecentVersion((version) => version + 1))
+            .catch((error) => console.warn('Could not store recent file:', error));
+    };
+
+    const handleOpenFile = async (file: File) => {
+        try {
+            openProjectText(file.name, await file.text());
+        } catch (error) {
+            console.error(`Failed to open ${file.name}:`, error);
+            window.alert(`Could not open ${file.name}: ${(error as Error).message}`);
+        }
+    };
+
+    const handleOpenRecent = async (key: string, name: string) => {
+        const text = await getRecentFileContent(key).catch((error) => {
+            console.error(`Failed to read recent file ${name}:`, error);
+            return undefined;
+        });
+        if (text === undefined) {
+            window.alert(`${name} is no longer in the recent files list`);
+            setRecentVersion((version) => version + 1);
+            return;
+        }
+        openProjectText(name, text);
+    };
+
+    const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragOver(false);
+
+        const file = event.dataTransfer.files[0];
+        if (file) {
+            handleOpenFile(file);
+        }
+    };
+
+    const importLayer = async (file: File, parse: (text: string) => Shape[]) => {
+        try {
+            const shapes = parse(await file.text());
+            if (shapes.length === 0) {
+                window.alert(`${file.name} has no polygons, lines or points`);
+                return;
+            }
+            importShapesRef.current?.(shapes);
+            console.log(`Imported ${shapes.length} shapes from ${file.name}`);
+        } catch (error) {
+            console.error(`Failed to import ${file.name}:`, error);
+            window.alert(`Could not import ${file.name}: ${(error as Error).message}`);
+        }
+    };
+
+    const handleImportGeoJson = (file: File) => importLayer(file, (text) => parseGeoJson(JSON.parse(text), file.name));
+
+    const handleImportDxf = (file: File) => importLayer(file, (text) => parseDxf(text, file.name));
+
+    const handleExportGeoJson = () => {
+        const manager = shapeManagerRef.current;
+        if (!manager) return;
+
+        const collection = shapesToGeoJson(manager.getAllShapes().map(({shape}) => shape));
+        downloadFile(JSON.stringify(collection), `${project?.Name || 'shapes'}.geojson`, 'application/geo+json');
+    };
+
+    const handleExportDxf = () => {
+        const manager = shapeManagerRef.current;
+        if (!manager) return;
+
+        const hierarchy = manager.getHierarchy();
+        const dxf = shapesToDxf(manager.getAllShapes().map(({shape}) => shape), (id) => hierarchy.getType(id));
+        downloadFile(dxf, `${project?.Name || 'shapes'}.dxf`, 'application/dxf');
+    };
+
+    const handleExportSvg = (mode: 'full' | 'view') => {
+        const manager = shapeManagerRef.current;
+        const viewport = viewportRef.current;
+        if (!manager || !viewport) return;
+
+        // The plot follows the layer panel: hidden layers stay out and layer opacity carries over
+        const isShown = (shape: Shape) => !manager.isHidden(shape.id);
+        const getLayerOpacity = (id: string) => manager.getLayerOpacity(id);
+
+        let svg: string;
+        if (mode === 'full') {
+            const shapes = manager.getAllShapes().map(({shape}) => shape).filter(isShown);
+            const bounds = calculateBounds(shapes);
+            svg = shapesToSvg(shapes, {
+                minX: bounds.minX - SVG_EXPORT_CONFIG.padding,
+                minY: bounds.minY - SVG_EXPORT_CONFIG.padding,
+                maxX: bounds.maxX + SVG_EXPORT_CONFIG.padding,
+                maxY: bounds.maxY + SVG_EXPORT_CONFIG.padding,
+            }, SVG_EXPORT_CONFIG.widthPx, getLayerOpacity);
+        } else {
+            const bounds = {
+                minX: viewport.left,
+                minY: viewport.top,
+                maxX: viewport.right,
+                maxY: viewport.bottom,
+            };
+            svg = shapesToSvg(manager.getShapesInBounds(bounds).filter(isShown), bounds, viewport.screenWidth, getLayerOpacity);
+        }
+
+        downloadFile(svg, `${project?.Name || 'shapes'}${mode === 'view' ? '-view' : ''}.svg`, 'image/svg+xml');
+    };
+
+    const handleDiagnosticSelect = (diagnostic: ImportDiagnostic) => {
+        if (viewportRef.current && diagnostic.location) {
+            zoomToBounds(viewportRef.current, diagnostic.location);
+        }
+    };
+
+    const handleRunValidation = () => {
+        const manager = shapeManagerRef.current;
+        if (!manager) return;
+
+        const shapes = manager.getAllShapes().map(({shape}) => shape);
+        const issues = validateShapes(shapes, manager.getHierarchy(), (bounds) => manager.getShapesInBounds(bounds));
+        setValidation({issues, version: sceneVersion + shapesVersion});
+        setValidationIndex(-1);
+    };
+
+    // Zoom to the issue and select the offending shape, ready to fix
+    const handleValidationSelect = (index: number) => {
+        const issue = validation?.issues[index];
+        if (!issue) return;
+
+        setValidationIndex(index);
+        if (viewportRef.current) {
+            zoomToBounds(viewportRef.current, issue.bounds);
+        }
+        shapeManagerRef.current?.selectShapes([issue.shapeIds[0]]);
+    };
+
+    const handlePropertyChange = (shapeIds: string[], updates: ShapeUpdate) => {
+        shapeManagerRef.current?.updateShapes(shapeIds, updates);
+    };
+
+    // Numeric rotate/scale from the properties panel, about the centre of the selection
+    const handleTransform = (transform: Omit<ShapeTransform, 'pivot'>) => {
+        const manager = shapeManagerRef.current;
+        const bounds = manager?.getShapesBounds(manager.getSelectedShapes());
+        if (!manager || !bounds) return;
+
+        const pivot = {x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2};
+        manager.transformSelection({...transform, pivot}, transform.rotation !== 0 ? 'Rotate' : 'Scale');
+    };
+
+    // Laterals take the colours the source project defines for the block, or the parser defaults
+    const handleGenerateLaterals = (options: LateralOptions) => {
+        const manager = shapeManagerRef.current;
+        const blockId = selectedIds[0];
+        const block = manager?.getShapeById(blockId);
+        if (!manager || !block || block.type !== 'polygon') return;
+
+        const laterals = generateLaterals(block.coordinates, options);
+        if (laterals.length === 0) {
+            window.alert('No laterals fit in this block with these settings.');
+            return;
+        }
+
+        const sourceId = manager.getHierarchy().get(blockId)?.sourceId;
+        const sourceBlock = project?.SubAreas
+            .flatMap((subArea) => subArea?.Blocks ?? [])
+            .find((candidate) => candidate?.Id === sourceId);
+        manager.replaceLaterals(blockId, laterals, parseLateralStyle(sourceBlock?.ExternalSnapshot));
+    };
+
+    // Offsets are added as new polygons with the source's style; the originals stay as they are
+    const handleOffset = (distance: number, join: OffsetJoin) => {
+        const manager = shapeManagerRef.current;
+        if (!manager) return;
+
+        const lines = selectedShapes.filter((shape) => shape.type === 'line');
+        if (distance < 0 && lines.length > 0) {
+            window.alert('Lines can only be offset by a positive distance (a corridor on both sides).');
+            return;
+        }
+
+        let offsets: Array<{ coordinates: Coordinate[]; style: ShapeStyle }>;
+        try {
+            offsets = selectedShapes.flatMap((shape) => {
+                const rings = shape.type === 'polygon' ? offsetPolygon(shape.coordinates, distance, join)
+                    : shape.type === 'line' ? bufferPolyline(shape.points, distance, join)
+                    : [];
+                return rings.map((coordinates) => ({coordinates, style: shape.style}));
+            });
+        } catch (error) {
+            window.alert(`Could not offset: ${(error as Error).message}`);
+            return;
+        }
+
+        if (offsets.length === 0) {
+            window.alert('Nothing is left after offsetting by this distance.');
+            return;
+        }
+        manager.addPolygons(offsets, 'Offset');
+    };
+
+    const selectedShapes = activeManager
+        ? selectedIds
+            .map((id) => activeManager.getShapeById(id))
+            .filter((shape): shape is Shape => shape !== undefined)
+        : [];
+
+    // Union and XOR consume every input; difference and intersection only reshape the first polygon,
+    // so the others (e.g. a SubArea used to trim blocks) are kept
+    const handlePolygonBoolean = (operation: BooleanOperation) => {
+        const manager = shapeManagerRef.current;
+        const polygons = selectedShapes.filter((shape) => shape.type === 'polygon');
+        if (!manager || polygons.length < 2) return;
+
+        const [primary, ...others] = polygons;
+        try {
+            const rings = polygonBoolean(operation, primary.coordinates, others.map(({coordinates}) => coordinates));
+            const consumed = operation === 'union' || operation === 'xor' ? others.map(({id}) => id) : [];
+            manager.replacePolygons(primary.id, rings, consumed, OPERATION_LABELS[operation]);
+        } catch (error) {
+            window.alert(`Could not ${OPERATION_LABELS[operation].toLowerCase()}: ${(error as Error).message}`);
+        }
+    };
+
+    // The line stays so it can be reused for further cuts
+    const handleSplitPolygon = () => {
+        const manager = shapeManagerRef.current;
+        const polygon = selectedShapes.find((shape) => shape.type === 'polygon');
+        const line = selectedShapes.find((shape) => shape.type === 'line');
+        if (!manager || !polygon || !line) return;
+
+        try {
+            manager.replacePolygons(polygon.id, splitPolygonByPolyline(polygon.coordinates, line.points), [], 'Split');
+        } catch (error) {
+            window.alert(`Could not split: ${(error as Error).message}`);
+        }
+    };
+
+    const handleExport = () => {
+        const manager = shapeManagerRef.current;
+        if (!manager || !project) return;
+
+        const shapes = manager.getAllShapes().map(({shape}) => shape);
+        const {project: exported, skippedIds} = serializeIrrigationProject(project, shapes, (id) => manager.getHierarchy().get(id));
+        downloadFile(JSON.stringify(exported, null, 2), `${exported.Name || 'project'}.json`, 'application/json');
+
+        // Listed next to the import issues so each one can be zoomed to and moved into place
+        setExportDiagnostics(skippedIds.map((id) => {
+            const isPolygon = manager.getShape(id)?.shape.type === 'polygon';
+            return {
+                severity: 'warning',
+                reason: 'not-exported',
+                message: isPolygon
+                    ? 'New polygon isn\'t inside a SubArea, so it was left out of the export'
+                    : 'New line isn\'t inside a Block, so it was left out of the export',
+                path: [],
+                location: manager.getShapesBounds([id]) ?? undefined,
+            };
+        }));
+        if (skippedIds.length > 0) {
+            window.alert(`${skippedIds.length} new ${skippedIds.length === 1 ? 'shape was' : 'shapes were'} left out of the export. See Project issues for where they are.`);
+        }
+    };
 
     return (
         <>
             <FPSCounter />
-            <Toolbar currentMode={drawMode} onModeChange={setDrawMode} />
+            <LayerPanel manager={activeManager} />
+            {showQuantityReport && activeManager && (
+                <QuantityReport
+                    manager={activeManager}
+                    version={sceneVersion + shapesVersion}
+                    projectName={project?.Name ?? ''}
+                    onClose={() => setShowQuantityReport(false)}
+                />
+            )}
+            {drawMode === 'measure' && (
+                <MeasurePanel
+                    measurement={measurement}
+                    imperial={imperialUnits}
+                    onImperialChange={setImperialUnits}
+                />
+            )}
+            <PropertiesPanel
+                selectedShapes={selectedShapes}
+                onPropertyChange={handlePropertyChange}
+                onTransform={handleTransform}
+                imperial={imperialUnits}
+                onGenerateLaterals={selectedIds.length === 1 && activeManager?.getHierarchy().getType(selectedIds[0]) === 'block'
+                    ? handleGenerateLaterals
+                    : undefined}
+                onPolygonBoolean={handlePolygonBoolean}
+                onSplitPolygon={handleSplitPolygon}
+                onOffset={handleOffset}
+            />
+            <Toolbar
+                currentMode={drawMode}
+                onModeChange={setDrawMode}
+                onUndo={activeManager?.canUndo() ? () => activeManager.undo() : undefined}
+                onRedo={activeManager?.canRedo() ? () => activeManager.redo() : undefined}
+                undoLabel={activeManager?.getUndoLabel() ?? null}
+                redoLabel={activeManager?.getRedoLabel() ?? null}
+            >
+                <button
+                    onClick={() => setCarryChildren(!carryChildren)}
+                    title="Moving, rotating or deleting a SubArea, Block or drawn outline also applies to what's inside it. Hold Alt when starting a drag to move the shape alone."
+                    style={{
+                        padding: '8px 16px',
+                        backgroundColor: carryChildren ? '#0066ff' : '#f0f0f0',
+                        color: carryChildren ? 'white' : '#333',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontWeight: carryChildren ? 'bold' : 'normal',
+                    }}
+                >
+                    Move contents
+                </button>
+                <SnapMenu settings={snapSettings} onChange={setSnapSettings} />
+                <FileMenu
+                    onOpenFile={handleOpenFile}
+                    onOpenRecent={handleOpenRecent}
+                    onExport={STRESS_TEST_MODE || !project ? undefined : handleExport}
+                    onImportGeoJson={handleImportGeoJson}
+                    onExportGeoJson={handleExportGeoJson}
+                    onImportDxf={handleImportDxf}
+                    onExportDxf={handleExportDxf}
+                    onExportSvg={handleExportSvg}
+                    onShowQuantityReport={activeManager ? () => setShowQuantityReport(true) : undefined}
+                    onRunValidation={activeManager ? handleRunValidation : undefined}
+                    recentVersion={recentVersion}
+                />
+            </Toolbar>
+            <DiagnosticsPanel
+                diagnostics={[...(parsedProject?.diagnostics ?? []), ...exportDiagnostics]}
+                onSelect={handleDiagnosticSelect}
+            />
+            {validation && (
+                <ValidationPanel
+                    issues={validation.issues}
+                    current={validationIndex}
+                    stale={validation.version !== sceneVersion + shapesVersion}
+                    onSelect={handleValidationSelect}
+                    onRun={handleRunValidation}
+                    onClose={() => {
+                        setValidation(null);
+                        setValidationIndex(-1);
+                    }}
+                />
+            )}
             <div
                 ref={containerRef}
-                style={{width: '100%', height: '100vh', backgroundColor: '#f0f0f0'}}
+                onDragOver={(event) => {
+                    event.preventDefault();
+                    setIsDragOver(true);
+                }}
+                onDragLeave={() => setIsDragOver(false)}
+                onDrop={handleDrop}
+                // Right-drag pans in select mode
+                onContextMenu={(event) => event.preventDefault()}
+                style={{
+                    width: '100%',
+                    height: '100vh',
+                    backgroundColor: '#f0f0f0',
+                    outline: isDragOver ? '4px dashed #0066ff' : 'none',
+                    outlineOffset: '-8px',
+                }}
             />
+            {!project && !STRESS_TEST_MODE && (
+                <div style={{
+                    position: 'fixed',
+                    top: '50%',
+                    left: '50%',
+                    transform: 'translate(-50%, -50%)',
+                    color: '#666',
+                    fontSize: '16px',
+                    pointerEvents: 'none',
+                }}>
+                    Open a project file from the File menu or drop it here
+                </div>
+            )}
         </>
     );
 };
\ No newline at end of file
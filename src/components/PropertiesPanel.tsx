@@ -1,33 +1,454 @@
 import React, { useState } from 'react';
-import type { Shape } from '../types/shapes';
+import type { Coordinate, Shape, ShapeStyle, ShapeTransform, ShapeUpdate } from '../types/shapes';
+import { formatArea, formatLength, measureShape } from '../utils/measurement';
+import type { LateralOptions } from '../utils/lateralGenerator';
+import type { BooleanOperation } from '../utils/polygonBoolean';
+import type { OffsetJoin } from '../utils/offset';
+import { LATERAL_CONFIG, OFFSET_CONFIG } from '../config/constants';
 
 interface PropertiesPanelProps {
-    selectedShape: Shape | null;
-    onPropertyChange: (shapeId: string, updates: Partial<Shape>) => void;
+    selectedShapes: Shape[];
+    onPropertyChange: (shapeIds: string[], updates: ShapeUpdate) => void;
+    onTransform: (transform: Omit<ShapeTransform, 'pivot'>) => void;
+    imperial: boolean;  // Also show ft / acres
+    // Only passed when a single block is selected
+    onGenerateLaterals?: (options: LateralOptions) => void;
+    onPolygonBoolean: (operation: BooleanOperation) => void;
+    onSplitPolygon: () => void;
+    onOffset: (distance: number, join: OffsetJoin) => void;
 }
 
-export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedShape, onPropertyChange }) => {
-    const [fillColor, setFillColor] = useState(selectedShape?.style.fillColor || '#90EE90');
-    const [borderColor, setBorderColor] = useState(selectedShape?.style.borderColor || '#228B22');
-    const [borderWidth, setBorderWidth] = useState(selectedShape?.style.borderWidth || 2);
-    const [opacity, setOpacity] = useState(selectedShape?.style.opacity || 1);
-
-    // Reset form when selectedShape changes
-    React.useEffect(() => {
-        if (selectedShape) {
-            setFillColor(selectedShape.style.fillColor || '#90EE90');
-            setBorderColor(selectedShape.style.borderColor || '#228B22');
-            setBorderWidth(selectedShape.style.borderWidth || 2);
-            setOpacity(selectedShape.style.opacity || 1);
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const labelStyle: React.CSSProperties = { display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px', color: '#666' };
+const inputStyle: React.CSSProperties = { flex: 1, minWidth: 0, padding: '6px 8px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '14px' };
+const buttonStyle: React.CSSProperties = { padding: '6px 10px', backgroundColor: '#f0f0f0', color: '#333', border: 'none', borderRadius: '4px', cursor: 'pointer' };
+
+// Value shared by every selected shape, or undefined when they differ
+function sharedValue<T>(shapes: Shape[], read: (shape: Shape) => T): T | undefined {
+    const first = read(shapes[0]);
+    return shapes.every(shape => read(shape) === first) ? first : undefined;
+}
+
+interface ColorFieldProps {
+    label: string;
+    value: string | undefined;
+    fallback: string;
+    onChange: (color: string) => void;
+}
+
+// Text input keeps a draft so partially typed colors aren't applied
+const ColorField: React.FC<ColorFieldProps> = ({ label, value, fallback, onChange }) => {
+    const [draft, setDraft] = useState(value ?? '');
+    const [syncedValue, setSyncedValue] = useState(value);
+
+    // Pick up edits made elsewhere (picker, drag, another field)
+    if (value !== syncedValue) {
+        setSyncedValue(value);
+        setDraft(value ?? '');
+    }
+
+    const handleChange = (color: string) => {
+        setDraft(color);
+        if (HEX_COLOR.test(color)) {
+            onChange(color);
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <label style={labelStyle}>
+                {label}
+            </label>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <input
+                    type="color"
+                    value={value && HEX_COLOR.test(value) ? value : fallback}
+                    onChange={(e) => handleChange(e.target.value)}
+                    style={{ width: '40px', height: '32px', border: '1px solid #ddd', borderRadius: '4px', cursor: 'pointer' }}
+                />
+                <input
+                    type="text"
+                    value={draft}
+                    placeholder={value === undefined ? 'Mixed' : undefined}
+                    onChange={(e) => handleChange(e.target.value)}
+                    style={inputStyle}
+                />
+            </div>
+        </div>
+    );
+};
+
+interface NumberFieldProps {
+    value: number | undefined;
+    title?: string;
+    onCommit: (value: number) => void;
+}
+
+// Commits on blur or Enter so geometry isn't redrawn on every keystroke
+const NumberField: React.FC<NumberFieldProps> = ({ value, title, onCommit }) => {
+    const format = (n: number | undefined) => n === undefined ? '' : String(Number(n.toFixed(3)));
+    const [draft, setDraft] = useState(format(value));
+    const [syncedValue, setSyncedValue] = useState(value);
+
+    if (value !== syncedValue) {
+        setSyncedValue(value);
+        setDraft(format(value));
+    }
+
+    const commit = () => {
+        const parsed = Number(draft);
+        if (draft.trim() !== '' && Number.isFinite(parsed) && parsed !== value) {
+            onCommit(parsed);
         }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [selectedShape?.id]);
+    };
+
+    return (
+        <input
+            type="text"
+            inputMode="decimal"
+            title={title}
+            value={draft}
+            placeholder={value === undefined ? 'Mixed' : undefined}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+            }}
+            style={inputStyle}
+        />
+    );
+};
+
+interface MeasurementsProps {
+    shapes: Shape[];
+    imperial: boolean;
+}
+
+// Computed from the geometry; with several shapes selected these are totals
+const Measurements: React.FC<MeasurementsProps> = ({ shapes, imperial }) => {
+    let area = 0, perimeter = 0, length = 0, polygons = 0, lines = 0;
+    shapes.map(measureShape).forEach((measured) => {
+        if (measured.area !== undefined && measured.perimeter !== undefined) {
+            area += measured.area;
+            perimeter += measured.perimeter;
+            polygons++;
+        } else if (measured.length !== undefined) {
+            length += measured.length;
+            lines++;
+        }
+    });
+    if (polygons === 0 && lines === 0) return null;
+
+    const name = (label: string) => shapes.length > 1 ? `Total ${label.toLowerCase()}` : label;
+    const row = (label: string, value: string) => (
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', padding: '2px 0' }}>
+            <span style={{ color: '#666' }}>{label}</span>
+            <span style={{ textAlign: 'right' }}>{value}</span>
+        </div>
+    );
+
+    return (
+        <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
+                Measurements
+            </label>
+            {polygons > 0 && row(name('Area'), formatArea(area, imperial))}
+            {polygons > 0 && row(name('Perimeter'), formatLength(perimeter, imperial))}
+            {lines > 0 && row(name('Length'), formatLength(length, imperial))}
+        </div>
+    );
+};
+
+interface TransformFieldsProps {
+    onTransform: (transform: Omit<ShapeTransform, 'pivot'>) => void;
+}
+
+// Rotates or scales the whole selection about its centre. Values stay after applying,
+// so the same step can be repeated.
+const TransformFields: React.FC<TransformFieldsProps> = ({ onTransform }) => {
+    const [angle, setAngle] = useState('90');
+    const [scaleX, setScaleX] = useState('100');
+    const [scaleY, setScaleY] = useState('100');
+
+    const parse = (draft: string) => draft.trim() === '' ? NaN : Number(draft);
+
+    const rotate = () => {
+        const degrees = parse(angle);
+        if (!Number.isFinite(degrees) || degrees % 360 === 0) return;
+        // Counter-clockwise on screen, which is clockwise in scene coordinates since Y is flipped
+        onTransform({ rotation: -degrees * Math.PI / 180, scaleX: 1, scaleY: 1 });
+    };
+
+    const scale = () => {
+        const x = parse(scaleX) / 100;
+        const y = parse(scaleY) / 100;
+        if (!Number.isFinite(x) || !Number.isFinite(y) || x === 0 || y === 0 || (x === 1 && y === 1)) return;
+        onTransform({ rotation: 0, scaleX: x, scaleY: y });
+    };
+
+    const onEnter = (apply: () => void) => (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') apply();
+    };
 
-    if (!selectedShape) {
+    return (
+        <>
+            <div style={{ marginBottom: '12px' }}>
+                <label style={labelStyle}>
+                    Rotate (° counter-clockwise)
+                </label>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        value={angle}
+                        onChange={(e) => setAngle(e.target.value)}
+                        onKeyDown={onEnter(rotate)}
+                        style={inputStyle}
+                    />
+                    <button onClick={rotate} style={buttonStyle}>Apply</button>
+                </div>
+            </div>
+            <div style={{ marginBottom: '12px' }}>
+                <label style={labelStyle}>
+                    Scale X / Y (%)
+                </label>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        title="X"
+                        value={scaleX}
+                        onChange={(e) => setScaleX(e.target.value)}
+                        onKeyDown={onEnter(scale)}
+                        style={inputStyle}
+                    />
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        title="Y"
+                        value={scaleY}
+                        onChange={(e) => setScaleY(e.target.value)}
+                        onKeyDown={onEnter(scale)}
+                        style={inputStyle}
+                    />
+                    <button onClick={scale} style={buttonStyle}>Apply</button>
+                </div>
+            </div>
+        </>
+    );
+};
+
+interface LateralFieldsProps {
+    onGenerate: (options: LateralOptions) => void;
+}
+
+const LATERAL_FIELDS: Array<{ key: keyof LateralOptions; label: string }> = [
+    { key: 'spacing', label: 'Spacing (m)' },
+    { key: 'angle', label: 'Angle (°)' },
+    { key: 'edgeOffset', label: 'Edge offset (m)' },
+    { key: 'minLength', label: 'Min length (m)' },
+];
+
+// Refills the block with parallel laterals, replacing the ones it has
+const LateralFields: React.FC<LateralFieldsProps> = ({ onGenerate }) => {
+    const [drafts, setDrafts] = useState<Record<keyof LateralOptions, string>>({
+        spacing: String(LATERAL_CONFIG.spacing),
+        angle: String(LATERAL_CONFIG.angle),
+        edgeOffset: String(LATERAL_CONFIG.edgeOffset),
+        minLength: String(LATERAL_CONFIG.minLength),
+    });
+
+    const options = {
+        spacing: Number(drafts.spacing),
+        angle: Number(drafts.angle),
+        edgeOffset: Number(drafts.edgeOffset),
+        minLength: Number(drafts.minLength),
+    };
+    const isValid = Object.values(drafts).every(draft => draft.trim() !== '' && Number.isFinite(Number(draft)))
+        && options.spacing > 0 && options.edgeOffset >= 0 && options.minLength >= 0;
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+                {LATERAL_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                        <label style={labelStyle}>
+                            {label}
+                        </label>
+                        <div style={{ display: 'flex' }}>
+                            <input
+                                type="text"
+                                inputMode="decimal"
+                                value={drafts[key]}
+                                onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                                style={inputStyle}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <button
+                onClick={() => onGenerate(options)}
+                disabled={!isValid}
+                style={{ ...buttonStyle, width: '100%', color: isValid ? '#333' : '#aaa', cursor: isValid ? 'pointer' : 'default' }}
+            >
+                Generate laterals
+            </button>
+        </div>
+    );
+};
+
+interface PolygonOperationsProps {
+    shapes: Shape[];
+    onBoolean: (operation: BooleanOperation) => void;
+    onSplit: () => void;
+}
+
+const BOOLEAN_OPERATIONS: Array<{ operation: BooleanOperation; label: string; title: string }> = [
+    { operation: 'union', label: 'Union', title: 'Merge the selected polygons' },
+    { operation: 'difference', label: 'Difference', title: 'Cut the other polygons out of the first' },
+    { operation: 'intersection', label: 'Intersect', title: 'Keep only the part the first shares with the others' },
+    { operation: 'xor', label: 'XOR', title: 'Keep the parts covered by exactly one polygon' },
+];
+
+// The first selected polygon is the primary: it keeps its id and style, and the results take its style
+const PolygonOperations: React.FC<PolygonOperationsProps> = ({ shapes, onBoolean, onSplit }) => {
+    const polygons = shapes.filter(shape => shape.type === 'polygon');
+    const lines = shapes.filter(shape => shape.type === 'line');
+    const canCombine = polygons.length >= 2 && polygons.length === shapes.length;
+    const canSplit = polygons.length === 1 && lines.length === 1 && shapes.length === 2;
+    const enabledStyle = (enabled: boolean): React.CSSProperties => ({ ...buttonStyle, color: enabled ? '#333' : '#aaa', cursor: enabled ? 'pointer' : 'default' });
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginBottom: '6px' }}>
+                {BOOLEAN_OPERATIONS.map(({ operation, label, title }) => (
+                    <button key={operation} title={title} onClick={() => onBoolean(operation)} disabled={!canCombine} style={enabledStyle(canCombine)}>
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <button
+                title="Cut the polygon along the line"
+                onClick={onSplit}
+                disabled={!canSplit}
+                style={{ ...enabledStyle(canSplit), width: '100%' }}
+            >
+                Split by line
+            </button>
+        </div>
+    );
+};
+
+interface OffsetFieldsProps {
+    onOffset: (distance: number, join: OffsetJoin) => void;
+}
+
+// Adds offset copies next to the originals: polygons grow (positive) or shrink (negative),
+// lines get a corridor of the distance on each side
+const OffsetFields: React.FC<OffsetFieldsProps> = ({ onOffset }) => {
+    const [distance, setDistance] = useState(String(OFFSET_CONFIG.distance));
+    const [join, setJoin] = useState<OffsetJoin>(OFFSET_CONFIG.join);
+
+    const value = distance.trim() === '' ? NaN : Number(distance);
+    const isValid = Number.isFinite(value) && value !== 0;
+    const apply = () => {
+        if (isValid) onOffset(value, join);
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+                <div>
+                    <label style={labelStyle}>
+                        Distance (m)
+                    </label>
+                    <div style={{ display: 'flex' }}>
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            value={distance}
+                            onChange={(e) => setDistance(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && apply()}
+                            style={inputStyle}
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label style={labelStyle}>
+                        Corners
+                    </label>
+                    <div style={{ display: 'flex' }}>
+                        <select value={join} onChange={(e) => setJoin(e.target.value as OffsetJoin)} style={inputStyle}>
+                            <option value="miter">Miter</option>
+                            <option value="round">Round</option>
+                            <option value="bevel">Bevel</option>
+                        </select>
+                    </div>
+                </div>
+            </div>
+            <button
+                onClick={apply}
+                disabled={!isValid}
+                style={{ ...buttonStyle, width: '100%', color: isValid ? '#333' : '#aaa', cursor: isValid ? 'pointer' : 'default' }}
+            >
+                Create offset
+            </button>
+        </div>
+    );
+};
+
+interface CoordinateListProps {
+    shapeId: string;
+    label: string;
+    coords: Coordinate[];
+    onChange: (coords: Coordinate[]) => void;
+}
+
+// Scene Y is negated, so edit world coordinates and flip back
+const CoordinateList: React.FC<CoordinateListProps> = ({ shapeId, label, coords, onChange }) => {
+    const setCoord = (index: number, axis: 'x' | 'y', value: number) => {
+        onChange(coords.map((coord, i) => i !== index ? coord : {
+            ...coord,
+            [axis]: axis === 'y' ? -value : value,
+        }));
+    };
+
+    return (
+        <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
+                {label} ({coords.length})
+            </label>
+            <div style={{ maxHeight: '200px', overflow: 'auto' }}>
+                {coords.map((coord, index) => (
+                    <div key={index} style={{ display: 'flex', gap: '6px', alignItems: 'center', marginBottom: '4px' }}>
+                        <span style={{ width: '20px', fontSize: '11px', color: '#999' }}>{index + 1}</span>
+                        <NumberField
+                            key={`${shapeId}-${index}-x`}
+                            title="X"
+                            value={coord.x}
+                            onCommit={(value) => setCoord(index, 'x', value)}
+                        />
+                        <NumberField
+                            key={`${shapeId}-${index}-y`}
+                            title="Y"
+                            value={-coord.y}
+                            onCommit={(value) => setCoord(index, 'y', value)}
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedShapes, onPropertyChange, onTransform, imperial, onGenerateLaterals, onPolygonBoolean, onSplitPolygon, onOffset }) => {
+    if (selectedShapes.length === 0) {
         return (
             <div style={{
                 position: 'fixed',
-                top: '20px',
+                top: '200px',
                 right: '20px',
                 backgroundColor: 'white',
                 padding: '20px',
@@ -46,38 +467,28 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedShape,
         );
     }
 
-    const handleFillColorChange = (color: string) => {
-        setFillColor(color);
-        onPropertyChange(selectedShape.id, {
-            style: { ...selectedShape.style, fillColor: color },
-        });
-    };
+    const ids = selectedShapes.map(shape => shape.id);
+    const single = selectedShapes.length === 1 ? selectedShapes[0] : null;
+    // Fields are keyed by selection so drafts don't leak between shapes
+    const selectionKey = ids.join(',');
 
-    const handleBorderColorChange = (color: string) => {
-        setBorderColor(color);
-        onPropertyChange(selectedShape.id, {
-            style: { ...selectedShape.style, borderColor: color },
-        });
-    };
+    const styleValue = <K extends keyof ShapeStyle>(key: K) => sharedValue(selectedShapes, shape => shape.style[key]);
+    const fillColor = styleValue('fillColor');
+    const borderColor = styleValue('borderColor');
+    const borderWidth = styleValue('borderWidth');
+    const opacity = styleValue('opacity');
+    const type = sharedValue(selectedShapes, shape => shape.type);
+    const hasFill = selectedShapes.some(shape => shape.type !== 'line');
+    const canOffset = selectedShapes.some(shape => shape.type !== 'point');
+    const hasPolygonOperations = selectedShapes.length >= 2 && selectedShapes.every(shape => shape.type !== 'point')
+        && selectedShapes.some(shape => shape.type === 'polygon');
 
-    const handleBorderWidthChange = (width: number) => {
-        setBorderWidth(width);
-        onPropertyChange(selectedShape.id, {
-            style: { ...selectedShape.style, borderWidth: width },
-        });
-    };
-
-    const handleOpacityChange = (newOpacity: number) => {
-        setOpacity(newOpacity);
-        onPropertyChange(selectedShape.id, {
-            style: { ...selectedShape.style, opacity: newOpacity },
-        });
-    };
+    const setStyle = (style: Partial<ShapeStyle>) => onPropertyChange(ids, { style });
 
     return (
         <div style={{
             position: 'fixed',
-            top: '20px',
+            top: '200px',
             right: '20px',
             backgroundColor: 'white',
             padding: '20px',
@@ -85,8 +496,9 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedShape,
             boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
             width: '280px',
             zIndex: 1000,
-            maxHeight: 'calc(100vh - 40px)',
+            maxHeight: 'calc(100vh - 220px)',
             overflow: 'auto',
+            color: '#333',
         }}>
             <h3 style={{ margin: '0 0 16px 0', fontSize: '16px', fontWeight: 'bold', color: 'black' }}>
                 Properties
@@ -105,158 +517,168 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedShape,
                     color: '#212529',
                     fontWeight: '500'
                 }}>
-                    {selectedShape.type.charAt(0).toUpperCase() + selectedShape.type.slice(1)}
-                </div>
-            </div>
-
-            <div style={{ marginBottom: '16px' }}>
-                <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
-                    Shape ID
-                </label>
-                <div style={{
-                    padding: '10px 12px',
-                    backgroundColor: '#f8f9fa',
-                    border: '1px solid #e0e0e0',
-                    borderRadius: '4px',
-                    fontSize: '11px',
-                    color: '#495057',
-                    wordBreak: 'break-all',
-                    fontFamily: 'monospace'
-                }}>
-                    {selectedShape.id}
+                    {type ? type.charAt(0).toUpperCase() + type.slice(1) : 'Mixed'}
+                    {!single && ` (${selectedShapes.length} selected)`}
                 </div>
             </div>
 
-            {selectedShape.type === 'polygon' && (
+            {single && (
                 <div style={{ marginBottom: '16px' }}>
                     <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
-                        Vertices
+                        Shape ID
                     </label>
                     <div style={{
                         padding: '10px 12px',
                         backgroundColor: '#f8f9fa',
                         border: '1px solid #e0e0e0',
                         borderRadius: '4px',
-                        fontSize: '14px',
-                        color: '#212529',
-                        fontWeight: '500'
+                        fontSize: '11px',
+                        color: '#495057',
+                        wordBreak: 'break-all',
+                        fontFamily: 'monospace'
                     }}>
-                        {selectedShape.coordinates.length}
+                        {single.id}
                     </div>
                 </div>
             )}
 
-            {selectedShape.type === 'line' && (
-                <div style={{ marginBottom: '16px' }}>
-                    <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
-                        Points
-                    </label>
-                    <div style={{
-                        padding: '10px 12px',
-                        backgroundColor: '#f8f9fa',
-                        border: '1px solid #e0e0e0',
-                        borderRadius: '4px',
-                        fontSize: '14px',
-                        color: '#212529',
-                        fontWeight: '500'
-                    }}>
-                        {selectedShape.points.length}
-                    </div>
-                </div>
+            <Measurements shapes={selectedShapes} imperial={imperial} />
+
+            {single?.type === 'polygon' && (
+                <CoordinateList
+                    shapeId={single.id}
+                    label="Vertices"
+                    coords={single.coordinates}
+                    onChange={(coordinates) => onPropertyChange(ids, { coordinates })}
+                />
+            )}
+
+            {single?.type === 'line' && (
+                <CoordinateList
+                    shapeId={single.id}
+                    label="Points"
+                    coords={single.points}
+                    onChange={(points) => onPropertyChange(ids, { points })}
+                />
+            )}
+
+            {single?.type === 'point' && (
+                <CoordinateList
+                    shapeId={single.id}
+                    label="Position"
+                    coords={[single.coordinate]}
+                    onChange={([coordinate]) => onPropertyChange(ids, { coordinate })}
+                />
             )}
 
-            {selectedShape.type === 'point' && (
+            {type === 'point' && (
                 <div style={{ marginBottom: '16px' }}>
-                    <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '6px', color: '#555' }}>
-                        Position
+                    <label style={labelStyle}>
+                        Radius
                     </label>
-                    <div style={{
-                        padding: '10px 12px',
-                        backgroundColor: '#f8f9fa',
-                        border: '1px solid #e0e0e0',
-                        borderRadius: '4px',
-                        fontSize: '13px',
-                        color: '#212529',
-                        fontFamily: 'monospace'
-                    }}>
-                        X: {selectedShape.coordinate.x.toFixed(2)}, Y: {selectedShape.coordinate.y.toFixed(2)}
+                    <div style={{ display: 'flex' }}>
+                        <NumberField
+                            key={`${selectionKey}-radius`}
+                            value={sharedValue(selectedShapes, shape => shape.type === 'point' ? shape.radius || 5 : undefined)}
+                            onCommit={(radius) => onPropertyChange(ids, { radius })}
+                        />
                     </div>
                 </div>
             )}
 
             <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '16px 0' }} />
 
+            <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', fontWeight: 'bold', color: 'black'  }}>
+                Transform
+            </h4>
+
+            <TransformFields onTransform={onTransform} />
+
+            {onGenerateLaterals && (
+                <>
+                    <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '16px 0' }} />
+
+                    <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', fontWeight: 'bold', color: 'black'  }}>
+                        Laterals
+                    </h4>
+
+                    <LateralFields onGenerate={onGenerateLaterals} />
+                </>
+            )}
+
+            {hasPolygonOperations && (
+                <>
+                    <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '16px 0' }} />
+
+                    <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', fontWeight: 'bold', color: 'black'  }}>
+                        Polygon operations
+                    </h4>
+
+                    <PolygonOperations shapes={selectedShapes} onBoolean={onPolygonBoolean} onSplit={onSplitPolygon} />
+                </>
+            )}
+
+            {canOffset && (
+                <>
+                    <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '16px 0' }} />
+
+                    <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', fontWeight: 'bold', color: 'black'  }}>
+                        Offset
+                    </h4>
+
+                    <OffsetFields onOffset={onOffset} />
+                </>
+            )}
+
+            <hr style={{ border: 'none', borderTop: '1px solid #e0e0e0', margin: '16px 0' }} />
+
             <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', fontWeight: 'bold', color: 'black'  }}>
                 Style
             </h4>
 
-            {(selectedShape.type === 'polygon' || selectedShape.type === 'point') && (
-                <div style={{ marginBottom: '12px' }}>
-                    <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px', color: '#666' }}>
-                        Fill Color
-                    </label>
-                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-                        <input
-                            type="color"
-                            value={fillColor}
-                            onChange={(e) => handleFillColorChange(e.target.value)}
-                            style={{ width: '40px', height: '32px', border: '1px solid #ddd', borderRadius: '4px', cursor: 'pointer' }}
-                        />
-                        <input
-                            type="text"
-                            value={fillColor}
-                            onChange={(e) => handleFillColorChange(e.target.value)}
-                            style={{ flex: 1, padding: '6px 8px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '14px' }}
-                        />
-                    </div>
-                </div>
+            {hasFill && (
+                <ColorField
+                    key={`${selectionKey}-fill`}
+                    label="Fill Color"
+                    value={fillColor}
+                    fallback="#90EE90"
+                    onChange={(color) => setStyle({ fillColor: color })}
+                />
             )}
 
-            <div style={{ marginBottom: '12px' }}>
-                <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px', color: '#666' }}>
-                    Border Color
-                </label>
-                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-                    <input
-                        type="color"
-                        value={borderColor}
-                        onChange={(e) => handleBorderColorChange(e.target.value)}
-                        style={{ width: '40px', height: '32px', border: '1px solid #ddd', borderRadius: '4px', cursor: 'pointer' }}
-                    />
-                    <input
-                        type="text"
-                        value={borderColor}
-                        onChange={(e) => handleBorderColorChange(e.target.value)}
-                        style={{ flex: 1, padding: '6px 8px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '14px' }}
-                    />
-                </div>
-            </div>
+            <ColorField
+                key={`${selectionKey}-border`}
+                label="Border Color"
+                value={borderColor}
+                fallback="#228B22"
+                onChange={(color) => setStyle({ borderColor: color })}
+            />
 
             <div style={{ marginBottom: '12px' }}>
-                <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px', color: '#666' }}>
-                    Border Width: {borderWidth}px
+                <label style={labelStyle}>
+                    Border Width: {borderWidth === undefined ? 'Mixed' : `${borderWidth}px`}
                 </label>
                 <input
                     type="range"
                     min="1"
                     max="10"
-                    value={borderWidth}
-                    onChange={(e) => handleBorderWidthChange(Number(e.target.value))}
+                    value={borderWidth ?? 2}
+                    onChange={(e) => setStyle({ borderWidth: Number(e.target.value) })}
                     style={{ width: '100%' }}
                 />
             </div>
 
             <div style={{ marginBottom: '12px' }}>
-                <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px', color: '#666' }}>
-                    Opacity: {opacity.toFixed(2)}
+                <label style={labelStyle}>
+                    Opacity: {opacity === undefined ? 'Mixed' : opacity.toFixed(2)}
                 </label>
                 <input
                     type="range"
                     min="0"
                     max="1"
                     step="0.01"
-                    value={opacity}
-                    onChange={(e) => handleOpacityChange(Number(e.target.value))}
+                    value={opacity ?? 1}
+                    onChange={(e) => setStyle({ opacity: Number(e.target.value) })}
                     style={{ width: '100%' }}
                 />
             </div>
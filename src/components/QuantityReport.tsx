@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import type { ShapeManager } from '../pixi/ShapeManager';
+import { computeQuantityTakeoff, quantityTakeoffToCsv } from '../utils/quantityTakeoff';
+import { SQUARE_METRES_PER_HECTARE } from '../utils/measurement';
+import { downloadFile } from '../utils/download';
+
+interface QuantityReportProps {
+    manager: ShapeManager;
+    // Bumped by the parent on every edit, so the totals match what's on screen
+    version: number;
+    projectName: string;
+    onClose: () => void;
+}
+
+interface Column<Row> {
+    label: string;
+    value: (row: Row) => string | number;
+    format?: (value: number) => string;
+}
+
+interface SortableTableProps<Row> {
+    title: string;
+    rows: Row[];
+    columns: Column<Row>[];
+}
+
+const formatNumber = (digits: number) => (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: digits });
+const cellStyle: React.CSSProperties = { padding: '6px 10px', borderBottom: '1px solid #eee', whiteSpace: 'nowrap' };
+
+// Click a header to sort by it, again to reverse
+function SortableTable<Row extends { id: string }>({ title, rows, columns }: SortableTableProps<Row>) {
+    const [sort, setSort] = useState<{ column: number; ascending: boolean }>({ column: 0, ascending: true });
+
+    const sorted = [...rows].sort((a, b) => {
+        const first = columns[sort.column].value(a);
+        const second = columns[sort.column].value(b);
+        const order = typeof first === 'number' && typeof second === 'number'
+            ? first - second
+            : String(first).localeCompare(String(second), undefined, { numeric: true });
+        return sort.ascending ? order : -order;
+    });
+
+    return (
+        <div style={{ marginBottom: '20px' }}>
+            <h4 style={{ margin: '0 0 8px 0', fontSize: '14px', fontWeight: 'bold', color: 'black' }}>
+                {title} ({rows.length})
+            </h4>
+            <table style={{ borderCollapse: 'collapse', width: '100%', fontSize: '13px' }}>
+                <thead>
+                    <tr>
+                        {columns.map(({ label }, index) => (
+                            <th
+                                key={label}
+                                onClick={() => setSort({ column: index, ascending: sort.column === index ? !sort.ascending : true })}
+                                style={{
+                                    ...cellStyle,
+                                    textAlign: index === 0 ? 'left' : 'right',
+                                    cursor: 'pointer',
+                                    userSelect: 'none',
+                                    backgroundColor: '#f8f9fa',
+                                    position: 'sticky',
+                                    top: 0,
+                                }}
+                            >
+                                {label}{sort.column === index ? (sort.ascending ? ' ▲' : ' ▼') : ''}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {sorted.map(row => (
+                        <tr key={row.id}>
+                            {columns.map(({ label, value, format }, index) => {
+                                const cell = value(row);
+                                return (
+                                    <td key={label} style={{ ...cellStyle, textAlign: index === 0 ? 'left' : 'right' }}>
+                                        {typeof cell === 'number' && format ? format(cell) : cell}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export const QuantityReport: React.FC<QuantityReportProps> = ({ manager, projectName, onClose }) => {
+    const takeoff = computeQuantityTakeoff(manager.getHierarchy(), id => manager.getShapeById(id));
+    const hectares = (squareMetres: number) => formatNumber(4)(squareMetres / SQUARE_METRES_PER_HECTARE);
+
+    const handleExportCsv = () => {
+        downloadFile(quantityTakeoffToCsv(takeoff), `${projectName || 'project'}-quantities.csv`, 'text/csv');
+    };
+
+    return (
+        <div
+            onClick={onClose}
+            style={{
+                position: 'fixed',
+                inset: 0,
+                backgroundColor: 'rgba(0,0,0,0.3)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                zIndex: 2000,
+            }}
+        >
+            <div
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                    backgroundColor: 'white',
+                    borderRadius: '8px',
+                    boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+                    padding: '20px',
+                    width: 'min(900px, calc(100vw - 40px))',
+                    maxHeight: 'calc(100vh - 80px)',
+                    overflow: 'auto',
+                    color: '#333',
+                }}
+            >
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+                    <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 'bold', color: 'black' }}>
+                        Quantity take-off
+                    </h3>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            onClick={handleExportCsv}
+                            style={{ padding: '8px 16px', backgroundColor: '#0066ff', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                        >
+                            Export CSV
+                        </button>
+                        <button
+                            onClick={onClose}
+                            style={{ padding: '8px 16px', backgroundColor: '#f0f0f0', color: '#333', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+
+                {takeoff.subAreas.length === 0 && takeoff.blocks.length === 0 ? (
+                    <p style={{ color: '#666', fontSize: '14px', margin: 0 }}>
+                        The project has no SubAreas or Blocks.
+                    </p>
+                ) : (
+                    <>
+                        <SortableTable
+                            title="SubAreas"
+                            rows={takeoff.subAreas}
+                            columns={[
+                                { label: 'SubArea', value: row => row.name },
+                                { label: 'Blocks', value: row => row.blockCount },
+                                { label: 'Block area (m²)', value: row => row.blockArea, format: formatNumber(1) },
+                                { label: 'Block area (ha)', value: row => row.blockArea, format: hectares },
+                                { label: 'Laterals', value: row => row.lateralCount },
+                                { label: 'Lateral length (m)', value: row => row.lateralLength, format: formatNumber(1) },
+                            ]}
+                        />
+                        <SortableTable
+                            title="Blocks"
+                            rows={takeoff.blocks}
+                            columns={[
+                                { label: 'Block', value: row => row.name },
+                                { label: 'SubArea', value: row => row.subAreaName },
+                                { label: 'Area (m²)', value: row => row.area, format: formatNumber(1) },
+                                { label: 'Area (ha)', value: row => row.area, format: hectares },
+                                { label: 'Laterals', value: row => row.lateralCount },
+                                { label: 'Lateral length (m)', value: row => row.lateralLength, format: formatNumber(1) },
+                            ]}
+                        />
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
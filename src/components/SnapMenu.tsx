@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import type { SnapKind, SnapSettings } from '../types/snapping';
+
+interface SnapMenuProps {
+    settings: SnapSettings;
+    onChange: (settings: SnapSettings) => void;
+}
+
+const SNAP_KINDS: Array<{ kind: SnapKind; name: string }> = [
+    { kind: 'endpoint', name: 'Endpoint' },
+    { kind: 'intersection', name: 'Intersection' },
+    { kind: 'midpoint', name: 'Midpoint' },
+    { kind: 'perpendicular', name: 'Perpendicular' },
+    { kind: 'nearest', name: 'Nearest on edge' },
+    { kind: 'grid', name: 'Grid' },
+];
+
+const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 12px',
+    color: '#333',
+    fontSize: '14px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+};
+
+export const SnapMenu: React.FC<SnapMenuProps> = ({ settings, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div style={{ position: 'relative' }}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title="Object snapping (F3 toggles)"
+                style={{
+                    padding: '8px 16px',
+                    backgroundColor: isOpen ? '#0066ff' : '#f0f0f0',
+                    color: isOpen ? 'white' : settings.enabled ? '#333' : '#999',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: isOpen ? 'bold' : 'normal',
+                }}
+            >
+                Snap {settings.enabled ? 'on' : 'off'}
+            </button>
+            {isOpen && (
+                <div style={{
+                    position: 'absolute',
+                    top: 'calc(100% + 8px)',
+                    left: 0,
+                    backgroundColor: 'white',
+                    borderRadius: '8px',
+                    boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+                    padding: '6px 0',
+                    minWidth: '200px',
+                }}>
+                    <label style={{ ...rowStyle, fontWeight: 'bold' }}>
+                        <input
+                            type="checkbox"
+                            checked={settings.enabled}
+                            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                        />
+                        Snapping
+                    </label>
+                    <div style={{ borderTop: '1px solid #e0e0e0', margin: '6px 0' }} />
+                    {SNAP_KINDS.map(({ kind, name }) => (
+                        <label key={kind} style={{ ...rowStyle, opacity: settings.enabled ? 1 : 0.5 }}>
+                            <input
+                                type="checkbox"
+                                checked={settings.kinds[kind]}
+                                disabled={!settings.enabled}
+                                onChange={(e) => onChange({ ...settings, kinds: { ...settings.kinds, [kind]: e.target.checked } })}
+                            />
+                            {name}
+                        </label>
+                    ))}
+                    <label style={{ ...rowStyle, opacity: settings.enabled && settings.kinds.grid ? 1 : 0.5 }}>
+                        Grid size
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={settings.gridSize}
+                            disabled={!settings.enabled || !settings.kinds.grid}
+                            onChange={(e) => {
+                                const gridSize = Number(e.target.value);
+                                if (gridSize > 0) onChange({ ...settings, gridSize });
+                            }}
+                            style={{ width: '70px', padding: '4px 6px', border: '1px solid #ddd', borderRadius: '4px' }}
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
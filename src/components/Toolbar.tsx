@@ -1,13 +1,28 @@
 import React from 'react';
 
-export type DrawMode = 'select' | 'polygon' | 'line' | 'point' | null;
+export type DrawMode = 'select' | 'lasso' | 'fence' | 'polygon' | 'line' | 'point' | 'measure' | null;
 
 interface ToolbarProps {
     currentMode: DrawMode;
     onModeChange: (mode: DrawMode) => void;
+    // Undefined when there is nothing to undo/redo
+    onUndo?: () => void;
+    onRedo?: () => void;
+    undoLabel?: string | null;
+    redoLabel?: string | null;
+    children?: React.ReactNode;
 }
 
-export const Toolbar: React.FC<ToolbarProps> = ({ currentMode, onModeChange }) => {
+const historyButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '8px 12px',
+    backgroundColor: '#f0f0f0',
+    color: enabled ? '#333' : '#aaa',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'default',
+});
+
+export const Toolbar: React.FC<ToolbarProps> = ({ currentMode, onModeChange, onUndo, onRedo, undoLabel, redoLabel, children }) => {
     return (
         <div style={{
             position: 'fixed',
@@ -35,6 +50,36 @@ export const Toolbar: React.FC<ToolbarProps> = ({ currentMode, onModeChange }) =
             >
                 Select
             </button>
+            <button
+                onClick={() => onModeChange('lasso')}
+                title="Drag a freehand outline. Ctrl: touching shapes, Shift: add, Alt: remove"
+                style={{
+                    padding: '8px 16px',
+                    backgroundColor: currentMode === 'lasso' ? '#0066ff' : '#f0f0f0',
+                    color: currentMode === 'lasso' ? 'white' : '#333',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: currentMode === 'lasso' ? 'bold' : 'normal',
+                }}
+            >
+                Lasso
+            </button>
+            <button
+                onClick={() => onModeChange('fence')}
+                title="Click to place vertices, double-click or Enter to close. Ctrl: touching shapes, Shift: add, Alt: remove"
+                style={{
+                    padding: '8px 16px',
+                    backgroundColor: currentMode === 'fence' ? '#0066ff' : '#f0f0f0',
+                    color: currentMode === 'fence' ? 'white' : '#333',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: currentMode === 'fence' ? 'bold' : 'normal',
+                }}
+            >
+                Fence
+            </button>
             <button
                 onClick={() => onModeChange('polygon')}
                 style={{
@@ -77,6 +122,44 @@ export const Toolbar: React.FC<ToolbarProps> = ({ currentMode, onModeChange }) =
             >
                 Point
             </button>
+            <button
+                onClick={() => onModeChange('measure')}
+                title="Measure distances and angles; click the first point again to measure an area"
+                style={{
+                    padding: '8px 16px',
+                    backgroundColor: currentMode === 'measure' ? '#0066ff' : '#f0f0f0',
+                    color: currentMode === 'measure' ? 'white' : '#333',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: currentMode === 'measure' ? 'bold' : 'normal',
+                }}
+            >
+                Measure
+            </button>
+            <div style={{ width: '1px', backgroundColor: '#ddd', margin: '0 4px' }} />
+            <button
+                onClick={onUndo}
+                disabled={!onUndo}
+                title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                style={historyButtonStyle(!!onUndo)}
+            >
+                ↶
+            </button>
+            <button
+                onClick={onRedo}
+                disabled={!onRedo}
+                title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                style={historyButtonStyle(!!onRedo)}
+            >
+                ↷
+            </button>
+            {children && (
+                <>
+                    <div style={{ width: '1px', backgroundColor: '#ddd', margin: '0 4px' }} />
+                    {children}
+                </>
+            )}
         </div>
     );
 };
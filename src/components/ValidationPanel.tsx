@@ -0,0 +1,94 @@
+import React from 'react';
+import type { ValidationIssue, ValidationKind } from '../types/validation';
+
+interface ValidationPanelProps {
+    issues: ValidationIssue[];
+    current: number;    // Index of the issue being looked at, -1 for none
+    stale: boolean;     // Shapes were edited since the check ran
+    onSelect: (index: number) => void;
+    onRun: () => void;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<ValidationKind, string> = {
+    'self-intersection': 'Self-intersection',
+    'block-overlap': 'Overlapping blocks',
+    'outside-subarea': 'Outside SubArea',
+    'lateral-outside-block': 'Lateral outside block',
+};
+
+const buttonStyle: React.CSSProperties = { padding: '6px 10px', backgroundColor: '#f0f0f0', color: '#333', border: 'none', borderRadius: '4px', cursor: 'pointer' };
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, current, stale, onSelect, onRun, onClose }) => {
+    // Stepping wraps around so the list can be walked repeatedly
+    const step = (direction: number) => {
+        if (issues.length === 0) return;
+        onSelect(current < 0 ? (direction > 0 ? 0 : issues.length - 1) : (current + direction + issues.length) % issues.length);
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: '20px',
+            right: '340px',  // Clear of the properties panel, which opens when an issue is selected
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+            width: '360px',
+            zIndex: 1000,
+            color: '#333',
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '12px 16px' }}>
+                <strong style={{ fontSize: '14px', color: 'black' }}>
+                    Geometry check ({issues.length} {issues.length === 1 ? 'issue' : 'issues'})
+                </strong>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <button onClick={onRun} style={buttonStyle}>Re-run</button>
+                    <button onClick={onClose} title="Close" style={buttonStyle}>✕</button>
+                </div>
+            </div>
+
+            {stale && (
+                <div style={{ padding: '0 16px 8px', fontSize: '12px', color: '#f57c00' }}>
+                    Shapes have changed since this check. Re-run to update the list.
+                </div>
+            )}
+
+            {issues.length === 0 ? (
+                <div style={{ padding: '0 16px 12px', fontSize: '13px', color: '#666' }}>
+                    No problems found.
+                </div>
+            ) : (
+                <>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '0 16px 8px', fontSize: '13px' }}>
+                        <button onClick={() => step(-1)} style={buttonStyle}>‹ Previous</button>
+                        <span>{current >= 0 ? `${current + 1} / ${issues.length}` : `– / ${issues.length}`}</span>
+                        <button onClick={() => step(1)} style={buttonStyle}>Next ›</button>
+                    </div>
+                    <div style={{ maxHeight: '40vh', overflow: 'auto', borderTop: '1px solid #e0e0e0' }}>
+                        {issues.map((issue, index) => (
+                            <div
+                                key={index}
+                                onClick={() => onSelect(index)}
+                                title="Zoom to location"
+                                style={{
+                                    padding: '8px 16px',
+                                    borderBottom: '1px solid #f0f0f0',
+                                    cursor: 'pointer',
+                                    fontSize: '13px',
+                                    backgroundColor: index === current ? '#fff3e0' : 'transparent',
+                                }}
+                            >
+                                <div style={{ fontWeight: 'bold' }}>{KIND_LABELS[issue.kind]}</div>
+                                <div style={{ color: '#555' }}>{issue.message}</div>
+                                <div style={{ color: '#999', fontSize: '11px', fontFamily: 'monospace' }}>
+                                    {issue.location.x.toFixed(2)}, {(-issue.location.y).toFixed(2)}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -32,6 +32,117 @@ export const VIEWPORT_CONFIG = {
         minScale: 0.01,  // Can zoom out to see entire world
         maxScale: 10,    // Can zoom in 10x for details
     },
+    minFitSize: 20,      // World units shown at least when zooming to a tiny target
+};
+
+// Marquee selection configuration
+export const MARQUEE_CONFIG = {
+    minDragPx: 4,            // Shorter drags count as a click
+    windowColor: 0x0066ff,   // Left-to-right: fully contained shapes
+    crossingColor: 0x00aa44, // Right-to-left: touched shapes
+    fillAlpha: 0.1,
+};
+
+// Lasso and fence selection configuration (colours shared with the marquee)
+export const LASSO_CONFIG = {
+    minPointSpacingPx: 4,   // Freehand samples closer than this are dropped
+    closeDistancePx: 8,     // Clicking this close to the first fence vertex closes the fence
+    doubleClickMs: 300,     // A second click within this time also closes it
+};
+
+// Polygon and line drawing tools
+export const DRAWING_CONFIG = {
+    closeDistancePx: 8,   // Clicking this close to the first vertex closes a polygon
+    doubleClickMs: 300,   // A second click within this time finishes the shape
+    doubleClickDistancePx: 4,  // ...and lands within this distance of the first click
+    previewColor: 0x0066ff,
+    vertexRadiusPx: 3,
+};
+
+// Measure tool
+export const MEASURE_CONFIG = {
+    closeDistancePx: 8,   // Clicking this close to the first point closes the path to measure area
+    doubleClickMs: 300,   // A second click within this time ends the path
+    color: 0xff00aa,
+    vertexRadiusPx: 3,
+    labelOffsetPx: 12,
+};
+
+// Object snapping configuration
+export const SNAP_CONFIG = {
+    tolerancePx: 10,          // Screen pixels, so snapping feels the same at every zoom
+    maxSegments: 200,         // Nearby segments considered for intersections (pairwise)
+    markerColor: 0xff8800,
+    markerSizePx: 6,
+    defaults: {
+        enabled: true,
+        kinds: {
+            endpoint: true,
+            intersection: true,
+            midpoint: true,
+            perpendicular: false,
+            nearest: false,
+            grid: false,
+        },
+        gridSize: 1,
+    },
+};
+
+// Rotate/scale gizmo around the selection
+export const TRANSFORM_CONFIG = {
+    handleSizePx: 8,
+    paddingPx: 10,           // Gap between the selection bounds and the gizmo, so it doesn't cover vertex handles
+    rotateHandleOffsetPx: 28,
+    rotationSnapDegrees: 15, // Shift-rotate steps
+    minScale: 0.001,         // Scale factors never reach zero, which would collapse the geometry
+    color: 0x0066ff,
+};
+
+// Starting values for lateral generation (metres, degrees counter-clockwise from east)
+export const LATERAL_CONFIG = {
+    spacing: 1.5,
+    angle: 0,
+    edgeOffset: 0.5,
+    minLength: 2,
+};
+
+// Offset / buffer command
+export const OFFSET_CONFIG = {
+    distance: 3,        // Starting distance, m
+    join: 'miter' as const,
+    miterLimit: 4,      // Longer miter tips (as a multiple of the distance) are bevelled instead
+    arcTolerance: 0.05, // Largest gap between a round join and the true arc, m
+};
+
+// Geometry and topology checks
+export const VALIDATION_CONFIG = {
+    areaTolerance: 0.01,    // Overlaps and overhangs smaller than this are ignored, m²
+    lengthTolerance: 0.01,  // Lateral overhangs shorter than this are ignored, m
+    color: 0xd32f2f,
+    currentColor: 0xff9800, // The issue being looked at
+    lineWidthPx: 3,
+    markerRadiusPx: 12,
+};
+
+// Shape labels, sized in screen pixels
+export const LABEL_CONFIG = {
+    fontSize: 14,
+    color: '#000000',
+    haloColor: '#ffffff',   // Outline that keeps text readable over any fill
+    haloWidth: 3,
+    gapPx: 4,               // Minimum space between neighbouring labels
+    precision: 0.01,        // Interior point search tolerance, as a fraction of the shape's size
+};
+
+// Duplicate and paste configuration
+export const COPY_CONFIG = {
+    offsetPx: 20,  // Copies are shifted by this many screen pixels so they don't hide the originals
+};
+
+// Undo/redo configuration
+export const HISTORY_CONFIG = {
+    maxDepth: 100,        // Oldest steps are dropped beyond this
+    mergeWindowMs: 1000,  // Repeated edits of the same fields within this window form one step
 };
 
 // Default shape styles
@@ -63,3 +174,13 @@ export const PIXI_CONFIG = {
     antialias: true,
     maxResolution: 2,  // Clamp to max 2 for performance
 };
+
+// Recently opened project files (kept in IndexedDB)
+export const RECENT_FILES_LIMIT = 5;
+
+// SVG export
+export const SVG_EXPORT_CONFIG = {
+    widthPx: 1600,      // Output width for full-extent exports (view exports use the screen size)
+    labelFontSize: 14,  // Label size in output pixels
+    padding: 20,        // World units around the full extent
+};
@@ -0,0 +1,100 @@
+// A reversible edit. Commands are recorded after they've been applied, so only undo/redo run them.
+export interface Command {
+    label: string;
+    undo(): void;
+    redo(): void;
+    // Consecutive commands with the same key (e.g. one slider drag) collapse into a single step
+    mergeKey?: string;
+    merge?(next: Command): void;
+}
+
+interface HistoryEntry {
+    command: Command;
+    recordedAt: number;
+}
+
+// Bounded undo/redo stacks
+export class CommandHistory {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    private readonly maxDepth: number;
+    private readonly mergeWindowMs: number;
+    private changedCallback?: () => void;
+
+    constructor(maxDepth: number, mergeWindowMs: number) {
+        this.maxDepth = maxDepth;
+        this.mergeWindowMs = mergeWindowMs;
+    }
+
+    record(command: Command): void {
+        const now = Date.now();
+        const last = this.undoStack[this.undoStack.length - 1];
+
+        if (
+            last && command.mergeKey !== undefined && last.command.mergeKey === command.mergeKey &&
+            last.command.merge && this.redoStack.length === 0 && now - last.recordedAt <= this.mergeWindowMs
+        ) {
+            last.command.merge(command);
+            last.recordedAt = now;
+        } else {
+            this.undoStack.push({ command, recordedAt: now });
+            if (this.undoStack.length > this.maxDepth) {
+                this.undoStack.shift();
+            }
+        }
+
+        this.redoStack = [];
+        this.notifyChanged();
+    }
+
+    undo(): Command | null {
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+
+        entry.command.undo();
+        this.redoStack.push(entry);
+        this.notifyChanged();
+        return entry.command;
+    }
+
+    redo(): Command | null {
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+
+        entry.command.redo();
+        // Don't merge a later edit into a step that was just redone
+        this.undoStack.push({ command: entry.command, recordedAt: 0 });
+        this.notifyChanged();
+        return entry.command;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    getUndoLabel(): string | null {
+        return this.undoStack[this.undoStack.length - 1]?.command.label ?? null;
+    }
+
+    getRedoLabel(): string | null {
+        return this.redoStack[this.redoStack.length - 1]?.command.label ?? null;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notifyChanged();
+    }
+
+    onChanged(callback: () => void): void {
+        this.changedCallback = callback;
+    }
+
+    private notifyChanged(): void {
+        this.changedCallback?.();
+    }
+}
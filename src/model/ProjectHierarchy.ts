@@ -0,0 +1,134 @@
+import type {EntityType, HierarchyEntry, HierarchyNode} from '../types/hierarchy';
+
+// SubArea → Block → Lateral tree over shape ids, so relationships don't depend on id string formats
+export class ProjectHierarchy {
+    private readonly nodes: Map<string, HierarchyNode> = new Map();
+
+    load(entries: HierarchyEntry[]): void {
+        this.nodes.clear();
+        entries.forEach(entry => this.nodes.set(entry.id, {...entry, childIds: []}));
+
+        // Link in a second pass so entry order doesn't matter
+        this.nodes.forEach((node) => {
+            const parent = node.parentId ? this.nodes.get(node.parentId) : undefined;
+            if (parent) {
+                parent.childIds.push(node.id);
+            } else {
+                node.parentId = null;
+            }
+        });
+    }
+
+    add(entry: HierarchyEntry): void {
+        const existing = this.nodes.get(entry.id);
+        if (existing) {
+            this.setParent(entry.id, null);
+        }
+
+        // Re-adding keeps the node's children attached
+        this.nodes.set(entry.id, {...entry, parentId: null, childIds: existing ? existing.childIds : []});
+        this.setParent(entry.id, entry.parentId);
+    }
+
+    // Children of a removed node become roots
+    remove(id: string): void {
+        const node = this.nodes.get(id);
+        if (!node) return;
+
+        this.setParent(id, null);
+        node.childIds.forEach((childId) => {
+            const child = this.nodes.get(childId);
+            if (child) child.parentId = null;
+        });
+        this.nodes.delete(id);
+    }
+
+    setParent(id: string, parentId: string | null): void {
+        const node = this.nodes.get(id);
+        if (!node) return;
+
+        const oldParent = node.parentId ? this.nodes.get(node.parentId) : undefined;
+        if (oldParent) {
+            oldParent.childIds = oldParent.childIds.filter(childId => childId !== id);
+        }
+
+        const newParent = parentId ? this.nodes.get(parentId) : undefined;
+        node.parentId = newParent ? newParent.id : null;
+        if (newParent && !newParent.childIds.includes(id)) {
+            newParent.childIds.push(id);
+        }
+    }
+
+    clear(): void {
+        this.nodes.clear();
+    }
+
+    has(id: string): boolean {
+        return this.nodes.has(id);
+    }
+
+    get(id: string): HierarchyNode | undefined {
+        return this.nodes.get(id);
+    }
+
+    getType(id: string): EntityType | undefined {
+        return this.nodes.get(id)?.type;
+    }
+
+    getParentId(id: string): string | null {
+        return this.nodes.get(id)?.parentId ?? null;
+    }
+
+    getChildIds(id: string, type?: EntityType): string[] {
+        const node = this.nodes.get(id);
+        if (!node) return [];
+        return type ? node.childIds.filter(childId => this.nodes.get(childId)?.type === type) : [...node.childIds];
+    }
+
+    // Depth-first, not including the node itself
+    getDescendantIds(id: string, type?: EntityType): string[] {
+        const result: string[] = [];
+        const stack = [...this.getChildIds(id)].reverse();
+
+        while (stack.length > 0) {
+            const childId = stack.pop()!;
+            const child = this.nodes.get(childId);
+            if (!child) continue;
+
+            if (!type || child.type === type) {
+                result.push(childId);
+            }
+            for (let i = child.childIds.length - 1; i >= 0; i--) {
+                stack.push(child.childIds[i]);
+            }
+        }
+
+        return result;
+    }
+
+    // Nearest ancestor of the given type, e.g. the SubArea a lateral belongs to
+    getAncestorId(id: string, type: EntityType): string | null {
+        let parentId = this.getParentId(id);
+        while (parentId) {
+            if (this.nodes.get(parentId)?.type === type) return parentId;
+            parentId = this.getParentId(parentId);
+        }
+        return null;
+    }
+
+    getIdsOfType(type: EntityType): string[] {
+        const ids: string[] = [];
+        this.nodes.forEach((node) => {
+            if (node.type === type) ids.push(node.id);
+        });
+        return ids;
+    }
+
+    getRootIds(): string[] {
+        const ids: string[] = [];
+        this.nodes.forEach((node) => {
+            if (!node.parentId) ids.push(node.id);
+        });
+        return ids;
+    }
+}
@@ -0,0 +1,52 @@
+import type {Shape} from '../types/shapes';
+import type {HierarchyEntry} from '../types/hierarchy';
+import type {Command} from './CommandHistory';
+
+// Everything needed to put a shape back exactly as it was, including its place in the tree
+export interface ShapeRecord {
+    shape: Shape;
+    hierarchy: HierarchyEntry;
+    childIds: string[];
+}
+
+export interface ShapeChange {
+    id: string;
+    before: ShapeRecord | null;  // null: the shape was created
+    after: ShapeRecord | null;   // null: the shape was deleted
+}
+
+export type ApplyShapeRecords = (records: Array<{ id: string; record: ShapeRecord | null }>) => void;
+
+// Before/after snapshots of the touched shapes; covers create, delete, move, vertex edit, style and import
+export class ShapeChangeCommand implements Command {
+    readonly label: string;
+    readonly mergeKey?: string;
+    private changes: ShapeChange[];
+    private readonly apply: ApplyShapeRecords;
+
+    constructor(label: string, changes: ShapeChange[], apply: ApplyShapeRecords, mergeKey?: string) {
+        this.label = label;
+        this.changes = changes;
+        this.apply = apply;
+        this.mergeKey = mergeKey;
+    }
+
+    undo(): void {
+        // Unwind in the reverse of the order the changes were made
+        this.apply(this.changes.map(({ id, before }) => ({ id, record: before })).reverse());
+    }
+
+    redo(): void {
+        this.apply(this.changes.map(({ id, after }) => ({ id, record: after })));
+    }
+
+    // Keep our "before", take the newer "after"
+    merge(next: Command): void {
+        if (!(next instanceof ShapeChangeCommand)) return;
+
+        const afterById = new Map(next.changes.map(({ id, after }) => [id, after]));
+        this.changes = this.changes.map(change => afterById.has(change.id)
+            ? { ...change, after: afterById.get(change.id) ?? null }
+            : change);
+    }
+}
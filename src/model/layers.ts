@@ -0,0 +1,18 @@
+import type {EntityType} from '../types/hierarchy';
+
+export interface LayerState {
+    visible: boolean;
+    locked: boolean;
+    opacity: number;
+}
+
+export const DEFAULT_LAYER_STATE: LayerState = {
+    visible: true,
+    locked: false,
+    opacity: 1,
+};
+
+// Layer keys are either an entity type (the whole category) or a SubArea/Block shape id
+export function entityLayerKey(type: EntityType): string {
+    return `type:${type}`;
+}
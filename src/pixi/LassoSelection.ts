@@ -0,0 +1,125 @@
+import {Graphics} from 'pixi.js';
+import type {FederatedPointerEvent} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {ShapeManager} from './ShapeManager';
+import type {Coordinate} from '../types/shapes';
+import {LASSO_CONFIG, MARQUEE_CONFIG} from '../config/constants';
+
+interface SelectionModifiers {
+    shiftKey: boolean;
+    altKey: boolean;
+    ctrlKey: boolean;
+    metaKey: boolean;
+}
+
+// Freehand lasso (press, drag, release) and click-to-place fence polygon selection.
+// Shapes entirely inside the outline are selected; hold Ctrl/Cmd to take every shape it touches.
+// Shift adds to the current selection, Alt removes from it, as with the marquee.
+export class LassoSelection {
+    private readonly viewport: Viewport;
+    private readonly manager: ShapeManager;
+    private readonly graphics: Graphics;
+    private points: Coordinate[] = [];
+    private cursor: Coordinate | null = null;
+    private isDrawingLasso = false;
+    private lastFenceClick = 0;
+
+    constructor(viewport: Viewport, manager: ShapeManager) {
+        this.viewport = viewport;
+        this.manager = manager;
+        this.graphics = new Graphics();
+        this.graphics.eventMode = 'none';
+        viewport.addChild(this.graphics);
+    }
+
+    isActive(): boolean {
+        return this.points.length > 0;
+    }
+
+    beginLasso(event: FederatedPointerEvent): void {
+        this.cancel();
+        this.isDrawingLasso = true;
+        this.points = [this.toWorld(event)];
+    }
+
+    // Click-to-place: clicking the first vertex or double-clicking closes the fence
+    addFencePoint(event: FederatedPointerEvent): void {
+        const now = Date.now();
+        const isDoubleClick = now - this.lastFenceClick <= LASSO_CONFIG.doubleClickMs;
+        this.lastFenceClick = now;
+
+        if (this.points.length >= 3 && (isDoubleClick || this.isNearFirstPoint(event))) {
+            this.finish(event);
+            return;
+        }
+
+        // The first click of a double-click already placed this vertex
+        if (!isDoubleClick || this.points.length === 0) {
+            this.points.push(this.toWorld(event));
+        }
+        this.draw(event.ctrlKey || event.metaKey);
+    }
+
+    move(event: FederatedPointerEvent): void {
+        if (this.points.length === 0) return;
+
+        const point = this.toWorld(event);
+        if (this.isDrawingLasso) {
+            const last = this.viewport.toGlobal(this.points[this.points.length - 1]);
+            if (Math.hypot(event.global.x - last.x, event.global.y - last.y) < LASSO_CONFIG.minPointSpacingPx) return;
+            this.points.push(point);
+        } else {
+            this.cursor = point;
+        }
+        this.draw(event.ctrlKey || event.metaKey);
+    }
+
+    endLasso(event: FederatedPointerEvent): void {
+        if (!this.isDrawingLasso) return;
+        this.finish(event);
+    }
+
+    finish(modifiers: SelectionModifiers): void {
+        const fence = this.points;
+        this.cancel();
+        if (fence.length < 3) return;
+
+        const mode = modifiers.ctrlKey || modifiers.metaKey ? 'crossing' : 'window';
+        const operation = modifiers.altKey ? 'subtract' : modifiers.shiftKey ? 'add' : 'replace';
+        this.manager.selectInPolygon(fence, mode, operation);
+    }
+
+    cancel(): void {
+        this.points = [];
+        this.cursor = null;
+        this.isDrawingLasso = false;
+        this.graphics.clear();
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+    }
+
+    private toWorld(event: FederatedPointerEvent): Coordinate {
+        const { x, y } = this.viewport.toLocal(event.global);
+        return { x, y };
+    }
+
+    private isNearFirstPoint(event: FederatedPointerEvent): boolean {
+        const first = this.viewport.toGlobal(this.points[0]);
+        return Math.hypot(event.global.x - first.x, event.global.y - first.y) <= LASSO_CONFIG.closeDistancePx;
+    }
+
+    private draw(crossing: boolean): void {
+        const color = crossing ? MARQUEE_CONFIG.crossingColor : MARQUEE_CONFIG.windowColor;
+        const outline = this.cursor ? [...this.points, this.cursor] : this.points;
+
+        this.graphics.clear();
+        if (outline.length < 2) return;
+
+        this.graphics.poly(outline.flatMap(({ x, y }) => [x, y]), true);
+        this.graphics.fill({ color, alpha: MARQUEE_CONFIG.fillAlpha });
+        // Keep the outline one screen pixel wide at any zoom
+        this.graphics.stroke({ width: 1 / this.viewport.scale.x, color });
+    }
+}
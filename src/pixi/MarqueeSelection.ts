@@ -0,0 +1,94 @@
+import {Graphics} from 'pixi.js';
+import type {FederatedPointerEvent} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {ShapeManager} from './ShapeManager';
+import {MARQUEE_CONFIG} from '../config/constants';
+
+// Drag-rectangle selection, AutoCAD-style: dragging left-to-right selects shapes entirely
+// inside the rectangle, right-to-left selects every shape it touches.
+// Shift adds to the current selection, Alt removes from it.
+// A press on a shape can start one too; if it stays a click, the shape's own click action runs instead.
+export class MarqueeSelection {
+    private readonly viewport: Viewport;
+    private readonly manager: ShapeManager;
+    private readonly graphics: Graphics;
+    private start: { screenX: number; screenY: number; x: number; y: number } | null = null;
+    private isActive = false;
+    private onClick: (() => void) | null = null;
+
+    constructor(viewport: Viewport, manager: ShapeManager) {
+        this.viewport = viewport;
+        this.manager = manager;
+        this.graphics = new Graphics();
+        this.graphics.eventMode = 'none';
+        viewport.addChild(this.graphics);
+    }
+
+    begin(event: FederatedPointerEvent, onClick?: () => void): void {
+        const world = this.viewport.toLocal(event.global);
+        this.start = { screenX: event.global.x, screenY: event.global.y, x: world.x, y: world.y };
+        this.isActive = false;
+        this.onClick = onClick ?? null;
+    }
+
+    move(event: FederatedPointerEvent): void {
+        if (!this.start) return;
+
+        if (!this.isActive) {
+            const distance = Math.hypot(event.global.x - this.start.screenX, event.global.y - this.start.screenY);
+            if (distance < MARQUEE_CONFIG.minDragPx) return;
+            this.isActive = true;
+        }
+
+        const world = this.viewport.toLocal(event.global);
+        const color = event.global.x >= this.start.screenX ? MARQUEE_CONFIG.windowColor : MARQUEE_CONFIG.crossingColor;
+
+        this.graphics.clear();
+        this.graphics.rect(this.start.x, this.start.y, world.x - this.start.x, world.y - this.start.y);
+        this.graphics.fill({ color, alpha: MARQUEE_CONFIG.fillAlpha });
+        // Keep the outline one screen pixel wide at any zoom
+        this.graphics.stroke({ width: 1 / this.viewport.scale.x, color });
+    }
+
+    end(event: FederatedPointerEvent): void {
+        if (!this.start) return;
+
+        const start = this.start;
+        const wasActive = this.isActive;
+        const onClick = this.onClick;
+        this.cancel();
+
+        const operation = event.altKey ? 'subtract' : event.shiftKey ? 'add' : 'replace';
+        if (!wasActive) {
+            // A click on a shape runs its click action, a plain click on empty space clears the selection
+            if (onClick) {
+                onClick();
+            } else if (operation === 'replace') {
+                this.manager.clearSelection();
+            }
+            return;
+        }
+
+        const world = this.viewport.toLocal(event.global);
+        const rect = {
+            minX: Math.min(start.x, world.x),
+            minY: Math.min(start.y, world.y),
+            maxX: Math.max(start.x, world.x),
+            maxY: Math.max(start.y, world.y),
+        };
+        const mode = event.global.x >= start.screenX ? 'window' : 'crossing';
+
+        this.manager.selectInRect(rect, mode, operation);
+    }
+
+    cancel(): void {
+        this.start = null;
+        this.isActive = false;
+        this.onClick = null;
+        this.graphics.clear();
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+    }
+}
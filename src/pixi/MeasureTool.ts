@@ -0,0 +1,181 @@
+import {Graphics, Text} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {Coordinate} from '../types/shapes';
+import {polylineLength} from '../utils/geometry';
+import {formatLength} from '../utils/measurement';
+import {MEASURE_CONFIG} from '../config/constants';
+
+export interface Measurement {
+    points: Coordinate[];
+    closed: boolean;
+}
+
+// Click-by-click distance measuring. Double-click or Enter ends the path, clicking the first
+// point closes it for area and perimeter, Backspace drops the last point and Esc clears.
+// The finished measurement stays on screen until the next click starts a new one.
+export class MeasureTool {
+    private readonly viewport: Viewport;
+    private readonly onChange: (measurement: Measurement | null) => void;
+    private readonly graphics: Graphics;
+    private readonly label: Text;
+    private points: Coordinate[] = [];
+    private cursor: Coordinate | null = null;
+    private closed = false;
+    private finished = false;
+    private lastClick = 0;
+
+    constructor(viewport: Viewport, onChange: (measurement: Measurement | null) => void) {
+        this.viewport = viewport;
+        this.onChange = onChange;
+        this.graphics = new Graphics();
+        this.graphics.eventMode = 'none';
+        this.label = new Text({
+            text: '',
+            style: { fontFamily: 'Arial, sans-serif', fontSize: 12, fill: '#ffffff' },
+            resolution: 2,
+        });
+        this.label.eventMode = 'none';
+        this.label.visible = false;
+        viewport.addChild(this.graphics);
+        viewport.addChild(this.label);
+    }
+
+    // True while points are still being placed
+    isActive(): boolean {
+        return this.points.length > 0 && !this.finished;
+    }
+
+    lastPoint(): Coordinate | null {
+        return this.isActive() ? this.points[this.points.length - 1] : null;
+    }
+
+    // world is the (already snapped) clicked point, screen the same point on screen
+    click(world: Coordinate, screen: Coordinate): void {
+        if (this.finished) {
+            this.reset();
+        }
+
+        const now = Date.now();
+        const isDoubleClick = now - this.lastClick <= MEASURE_CONFIG.doubleClickMs;
+        this.lastClick = now;
+
+        if (isDoubleClick && this.points.length >= 2) {
+            this.finish();
+            return;
+        }
+        if (this.points.length >= 3 && this.isNearFirstPoint(screen)) {
+            this.closed = true;
+            this.finish();
+            return;
+        }
+
+        if (!isDoubleClick || this.points.length === 0) {
+            this.points.push({ x: world.x, y: world.y });
+            this.changed();
+        }
+        this.draw();
+    }
+
+    move(world: Coordinate): void {
+        if (!this.isActive()) return;
+
+        this.cursor = { x: world.x, y: world.y };
+        this.draw();
+    }
+
+    removeLastPoint(): void {
+        this.points.pop();
+        if (this.points.length === 0) {
+            this.cancel();
+            return;
+        }
+        this.changed();
+        this.draw();
+    }
+
+    finish(): void {
+        if (this.points.length < 2) {
+            this.cancel();
+            return;
+        }
+
+        this.finished = true;
+        this.cursor = null;
+        this.changed();
+        this.draw();
+    }
+
+    cancel(): void {
+        this.reset();
+        this.onChange(null);
+    }
+
+    // Keep labels the same size on screen after zooming
+    refresh(): void {
+        if (this.points.length > 0) this.draw();
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+        this.label.destroy();
+    }
+
+    private reset(): void {
+        this.points = [];
+        this.cursor = null;
+        this.closed = false;
+        this.finished = false;
+        this.lastClick = 0;
+        this.graphics.clear();
+        this.label.visible = false;
+    }
+
+    private changed(): void {
+        this.onChange({ points: this.points.map(point => ({ ...point })), closed: this.closed });
+    }
+
+    private isNearFirstPoint(screen: Coordinate): boolean {
+        const first = this.viewport.toGlobal(this.points[0]);
+        return Math.hypot(screen.x - first.x, screen.y - first.y) <= MEASURE_CONFIG.closeDistancePx;
+    }
+
+    private draw(): void {
+        const scale = this.viewport.scale.x;
+        const color = MEASURE_CONFIG.color;
+        const path = this.cursor ? [...this.points, this.cursor] : this.points;
+
+        this.graphics.clear();
+        if (path.length >= 2) {
+            if (this.closed) {
+                this.graphics.poly(path.flatMap(({ x, y }) => [x, y]), true);
+                this.graphics.fill({ color, alpha: 0.15 });
+            }
+            this.graphics.poly(path.flatMap(({ x, y }) => [x, y]), this.closed);
+            this.graphics.stroke({ width: 2 / scale, color });
+        }
+        this.points.forEach(({ x, y }) => {
+            this.graphics.circle(x, y, MEASURE_CONFIG.vertexRadiusPx / scale);
+            this.graphics.fill({ color: 0xffffff });
+            this.graphics.stroke({ width: 1 / scale, color });
+        });
+
+        // Running total next to the cursor, or the end of a finished path
+        const end = path[path.length - 1];
+        const last = polylineLength(path.slice(-2));
+        const total = polylineLength(path, this.closed);
+
+        this.label.visible = path.length >= 2;
+        this.label.text = this.finished || path.length === 2
+            ? formatLength(total)
+            : `${formatLength(last)} (total ${formatLength(total)})`;
+        this.label.scale.set(1 / scale);
+        this.label.position.set(end.x + MEASURE_CONFIG.labelOffsetPx / scale, end.y + MEASURE_CONFIG.labelOffsetPx / scale);
+
+        // Dark backing so the label reads over any fill colour
+        if (this.label.visible) {
+            this.graphics.roundRect(this.label.x - 4 / scale, this.label.y - 2 / scale,
+                this.label.width + 8 / scale, this.label.height + 4 / scale, 3 / scale);
+            this.graphics.fill({ color: 0x000000, alpha: 0.7 });
+        }
+    }
+}
@@ -0,0 +1,134 @@
+import {Graphics} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {Coordinate} from '../types/shapes';
+import {DRAWING_CONFIG} from '../config/constants';
+
+export type PathKind = 'polygon' | 'line';
+
+const MIN_VERTICES: Record<PathKind, number> = { polygon: 3, line: 2 };
+
+// Click-by-click polygon and polyline drawing with a rubber-band preview to the cursor.
+// Double-click or Enter finishes, Backspace drops the last vertex, Esc cancels,
+// and clicking the first vertex closes a polygon.
+export class PathDrawing {
+    private readonly viewport: Viewport;
+    private readonly onFinish: (kind: PathKind, points: Coordinate[]) => void;
+    private readonly graphics: Graphics;
+    private kind: PathKind = 'polygon';
+    private points: Coordinate[] = [];
+    private cursor: Coordinate | null = null;
+    private lastClick: { time: number; screen: Coordinate } | null = null;
+
+    constructor(viewport: Viewport, onFinish: (kind: PathKind, points: Coordinate[]) => void) {
+        this.viewport = viewport;
+        this.onFinish = onFinish;
+        this.graphics = new Graphics();
+        this.graphics.eventMode = 'none';
+        viewport.addChild(this.graphics);
+    }
+
+    isActive(): boolean {
+        return this.points.length > 0;
+    }
+
+    // world is the clicked point in scene coordinates, screen the same point on screen
+    click(kind: PathKind, world: Coordinate, screen: Coordinate): void {
+        if (kind !== this.kind) {
+            this.cancel();
+            this.kind = kind;
+        }
+
+        // Two quick clicks in different places are two vertices, not a double-click
+        const now = Date.now();
+        const isDoubleClick = this.lastClick !== null &&
+            now - this.lastClick.time <= DRAWING_CONFIG.doubleClickMs &&
+            Math.hypot(screen.x - this.lastClick.screen.x, screen.y - this.lastClick.screen.y) <= DRAWING_CONFIG.doubleClickDistancePx;
+        this.lastClick = { time: now, screen: { x: screen.x, y: screen.y } };
+
+        if (isDoubleClick && this.points.length >= MIN_VERTICES[kind]) {
+            this.finish();
+            return;
+        }
+        if (kind === 'polygon' && this.points.length >= MIN_VERTICES.polygon && this.isNearFirstPoint(screen)) {
+            this.finish();
+            return;
+        }
+
+        // The first click of a double-click already placed this vertex
+        if (!isDoubleClick || this.points.length === 0) {
+            this.points.push({ x: world.x, y: world.y });
+        }
+        this.draw();
+    }
+
+    // world is the (already snapped) cursor position
+    move(world: Coordinate): void {
+        if (this.points.length === 0) return;
+
+        this.cursor = { x: world.x, y: world.y };
+        this.draw();
+    }
+
+    lastPoint(): Coordinate | null {
+        return this.points[this.points.length - 1] ?? null;
+    }
+
+    removeLastPoint(): void {
+        this.points.pop();
+        if (this.points.length === 0) {
+            this.cancel();
+        } else {
+            this.draw();
+        }
+    }
+
+    // Returns false while there aren't enough vertices yet
+    finish(): boolean {
+        if (this.points.length < MIN_VERTICES[this.kind]) return false;
+
+        const points = this.points;
+        this.cancel();
+        this.onFinish(this.kind, points);
+        return true;
+    }
+
+    cancel(): void {
+        this.points = [];
+        this.cursor = null;
+        this.lastClick = null;
+        this.graphics.clear();
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+    }
+
+    private isNearFirstPoint(screen: Coordinate): boolean {
+        const first = this.viewport.toGlobal(this.points[0]);
+        return Math.hypot(screen.x - first.x, screen.y - first.y) <= DRAWING_CONFIG.closeDistancePx;
+    }
+
+    private draw(): void {
+        const scale = this.viewport.scale.x;
+        const color = DRAWING_CONFIG.previewColor;
+        const outline = this.cursor ? [...this.points, this.cursor] : this.points;
+
+        this.graphics.clear();
+        if (outline.length >= 2) {
+            if (this.kind === 'polygon' && outline.length >= 3) {
+                this.graphics.poly(outline.flatMap(({ x, y }) => [x, y]), true);
+                this.graphics.fill({ color, alpha: 0.15 });
+            }
+            this.graphics.poly(outline.flatMap(({ x, y }) => [x, y]), false);
+            this.graphics.stroke({ width: 1 / scale, color });
+        }
+
+        // Vertex markers stay the same size on screen
+        this.points.forEach(({ x, y }, index) => {
+            const radius = (index === 0 && this.kind === 'polygon' ? 2 : 1) * DRAWING_CONFIG.vertexRadiusPx / scale;
+            this.graphics.circle(x, y, radius);
+            this.graphics.fill({ color: 0xffffff });
+            this.graphics.stroke({ width: 1 / scale, color });
+        });
+    }
+}
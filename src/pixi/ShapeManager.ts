@@ -1,12 +1,24 @@
 import { Container, Graphics, Text } from 'pixi.js';
-import type {Shape, PointShape, PolygonShape} from '../types/shapes';
+import type {Coordinate, Shape, PointShape, PolygonShape, ShapeStyle, ShapeTransform, ShapeUpdate} from '../types/shapes';
+import type {HierarchyEntry, EntityType} from '../types/hierarchy';
 import RBush from 'rbush';
+import {ProjectHierarchy} from '../model/ProjectHierarchy';
+import type {SnapEngine, SnapOptions} from './SnapEngine';
+import {circleIntersectsRect, pointInPolygon, poleOfInaccessibility, polygonArea, polygonIntersectsRect, polylineIntersectsRect, polylinesIntersect, transformCoordinate} from '../utils/geometry';
+import type {Rect} from '../utils/geometry';
+import {DEFAULT_LAYER_STATE, entityLayerKey} from '../model/layers';
+import type {LayerState} from '../model/layers';
+import {CommandHistory} from '../model/CommandHistory';
+import {ShapeChangeCommand} from '../model/ShapeChangeCommand';
+import type {ShapeChange, ShapeRecord} from '../model/ShapeChangeCommand';
 import {
     LOD_MEDIUM_THRESHOLD,
     LOD_LOW_THRESHOLD,
     BUFFER_PERCENT,
     BASE_AREA,
-    DEFAULT_SHAPE_STYLES
+    DEFAULT_SHAPE_STYLES,
+    HISTORY_CONFIG,
+    LABEL_CONFIG
 } from '../config/constants';
 
 interface RBushItem {
@@ -17,11 +29,28 @@ interface RBushItem {
     id: string;
 }
 
+// Where a polygon's label goes, cached with a key of the vertices it was computed from
+interface LabelAnchor {
+    key: string;
+    point: Coordinate;
+    radius: number;  // Distance from point to the outline
+    width: number;   // Of the bounding box
+    area: number;
+}
+
+// 'window' takes shapes entirely inside the area, 'crossing' also those touching it
+export type AreaSelectionMode = 'window' | 'crossing';
+export type SelectionOperation = 'replace' | 'add' | 'subtract';
+
 interface ResizeHandleGraphics extends Graphics {
     handleIndex?: number;
     shapeId?: string;
+    isMidpoint?: boolean;  // Ghost handle on the edge starting at handleIndex; dragging it inserts a vertex
 }
 
+// Fewest vertices each editable shape type can be reduced to
+const MIN_VERTICES = { polygon: 3, line: 2 } as const;
+
 export class ShapeManager {
     private readonly container: Container;
     private readonly shapesContainer: Container;
@@ -29,16 +58,38 @@ export class ShapeManager {
     private readonly resizeHandlesContainer: Container;
     private readonly shapes: Map<string, { graphics: Graphics; shape: Shape; inScene: boolean }> = new Map();
     private readonly labels: Map<string, Text> = new Map();
+    private readonly labelAnchors: Map<string, LabelAnchor> = new Map();
+    private labelLayoutScale: number | null = null;  // Zoom the labels were last laid out at
+    private labelsStale = true;                      // Shapes were added, removed or redrawn since then
     private readonly selectedShapes: Set<string> = new Set();
     private readonly shapesInScene: Set<string> = new Set(); // Track what's currently in the scene
+    private readonly staleShapes: Set<string> = new Set();   // Off-screen shapes whose graphics are out of date
     private selectionChangedCallback?: (selectedIds: string[]) => void;
     private resizeHandles: ResizeHandleGraphics[] = [];
     private isDragging = false;
     private readonly dragOffset = { x: 0, y: 0 };
     private isResizing = false;
+    private isTransforming = false;       // Rotate/scale from the transform gizmo, previewed from dragSnapshots
+    private carryChildren = false;        // Moving, transforming or deleting a parent also applies to its children
+    private carriedShapes: Set<string> = new Set(); // Unselected children moving with the current drag
     private resizeHandleIndex = -1;
+    private focusedVertex: { shapeId: string; index: number } | null = null; // Last clicked vertex handle, for the Delete key
+    private handlesNeedRebuild = false;   // A vertex was inserted mid-event; rebuild handles on the next move
+    private dragLabel = '';
+    private dragAnchorIndex = 0;          // Vertex of the grabbed shape nearest the pointer; it's what snaps
+    private snapEngine: SnapEngine | null = null;
     private activeShapeId: string | null = null;
     private spatialIndex: RBush<RBushItem> | null = null;
+    private readonly spatialItems: Map<string, RBushItem> = new Map(); // Current index entry per shape, for removal
+    private shapesChangedCallback?: (changedIds: string[]) => void;
+    private shapeAddedCallback?: (id: string, graphics: Graphics) => void;
+    private readonly history = new CommandHistory(HISTORY_CONFIG.maxDepth, HISTORY_CONFIG.mergeWindowMs);
+    private dragSnapshots: ShapeRecord[] = []; // State before the current drag/resize, recorded as one step
+    private readonly hierarchy = new ProjectHierarchy();
+    private readonly layerStates: Map<string, LayerState> = new Map();
+    private readonly hiddenShapes: Set<string> = new Set();
+    private readonly lockedShapes: Set<string> = new Set();
+    private lastViewportBounds: { x: number; y: number; width: number; height: number } | null = null;
 
     constructor(container: Container) {
         this.container = container;
@@ -144,31 +195,109 @@ export class ShapeManager {
         return graphics;
     }
 
-    // private createLabel(shape: PolygonShape, coords: Coordinate[]): Text {
-    //     const centerX = coords.reduce((sum, c) => sum + c.x, 0) / coords.length;
-    //     const centerY = coords.reduce((sum, c) => sum + c.y, 0) / coords.length;
-
-    //     const textStyle = new TextStyle({
-    //         fontFamily: 'Arial, sans-serif',
-    //         fontSize: 14,
-    //         fontWeight: 'normal',
-    //         fill: '#000000',
-    //         align: 'center',
-    //     });
-
-    //     const text = new Text({
-    //         text: shape.label || '',
-    //         style: textStyle,
-    //     });
+    // Labels are created the first time their shape comes on screen
+    private getLabel(id: string, text: string): Text {
+        let label = this.labels.get(id);
+        if (!label) {
+            label = new Text({
+                text,
+                style: {
+                    fontFamily: 'Arial, sans-serif',
+                    fontSize: LABEL_CONFIG.fontSize,
+                    fill: LABEL_CONFIG.color,
+                    stroke: { color: LABEL_CONFIG.haloColor, width: LABEL_CONFIG.haloWidth },
+                    align: 'center',
+                },
+                resolution: 2,
+            });
+            label.anchor.set(0.5);
+            label.eventMode = 'none';
+            this.labels.set(id, label);
+        } else if (label.text !== text) {
+            label.text = text;
+        }
+        return label;
+    }
 
-    //     text.position.set(centerX, centerY);
-    //     text.anchor.set(0.5);
+    // Interior point for the label, recomputed only when the vertices have moved
+    private labelAnchor(shape: PolygonShape): LabelAnchor {
+        let sumX = 0, sumY = 0;
+        shape.coordinates.forEach(({ x, y }) => {
+            sumX += x;
+            sumY += y;
+        });
+        const key = `${shape.coordinates.length}:${sumX}:${sumY}:${shape.coordinates[0].x}:${shape.coordinates[0].y}`;
+        const cached = this.labelAnchors.get(shape.id);
+        if (cached?.key === key) return cached;
+
+        const { minX, minY, maxX, maxY } = this.calculateShapeBounds(shape);
+        const precision = Math.max(maxX - minX, maxY - minY) * LABEL_CONFIG.precision;
+        const anchor = {
+            key,
+            ...poleOfInaccessibility(shape.coordinates, precision),
+            width: maxX - minX,
+            area: polygonArea(shape.coordinates),
+        };
+        this.labelAnchors.set(shape.id, anchor);
+        return anchor;
+    }
 
-    //     // High resolution for crisp text
-    //     text.resolution = 4;
+    // Labels on-screen polygons at a constant screen size. A label is left out when it doesn't fit inside
+    // its shape at this zoom, or when it would overlap one placed first: SubAreas, then Blocks, then the
+    // rest, larger shapes first within each.
+    private layoutLabels(): void {
+        const scale = this.container.scale.x; // The container is the viewport
+        this.labelLayoutScale = scale;
+        this.labelsStale = false;
+        const halfGap = LABEL_CONFIG.gapPx / scale / 2;
+        const candidates: Array<{ id: string; label: Text; priority: number; area: number }> = [];
+
+        this.shapesInScene.forEach((id) => {
+            const shape = this.shapes.get(id)?.shape;
+            if (shape?.type !== 'polygon' || !shape.label || shape.coordinates.length < 3) return;
+
+            // Size checks come before the interior point search and the text, so zooming out over
+            // thousands of blocks stays cheap
+            const bounds = this.spatialItems.get(id);
+            if (bounds && Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) * scale < LABEL_CONFIG.fontSize) return;
+
+            const { point, radius, width, area } = this.labelAnchor(shape);
+            if (radius * 2 * scale < LABEL_CONFIG.fontSize) return;
+
+            const label = this.getLabel(id, shape.label);
+            label.scale.set(1 / scale);
+            label.position.set(point.x, point.y);
+            if (label.height > radius * 2 || label.width > width) return;
+
+            const type = this.hierarchy.getType(id);
+            candidates.push({ id, label, priority: type === 'subarea' ? 0 : type === 'block' ? 1 : 2, area });
+        });
+        candidates.sort((a, b) => a.priority - b.priority || b.area - a.area);
+
+        const placed = new RBush<Rect>();
+        const shown = new Set<string>();
+        candidates.forEach(({ id, label }) => {
+            const rect = {
+                minX: label.x - label.width / 2 - halfGap,
+                minY: label.y - label.height / 2 - halfGap,
+                maxX: label.x + label.width / 2 + halfGap,
+                maxY: label.y + label.height / 2 + halfGap,
+            };
+            if (placed.collides(rect)) return;
+
+            placed.insert(rect);
+            shown.add(id);
+        });
 
-    //     return text;
-    // }
+        // Like shapes, labels that aren't shown leave the scene graph
+        this.labels.forEach((label, id) => {
+            if (shown.has(id)) {
+                if (!label.parent) this.labelsContainer.addChild(label);
+            } else if (label.parent) {
+                this.labelsContainer.removeChild(label);
+            }
+        });
+    }
 
     addShape(shape: Shape): Graphics {
         let graphics: Graphics;
@@ -191,9 +320,24 @@ export class ShapeManager {
         // This prevents adding 100k shapes then immediately removing 95k on first cull
         this.shapes.set(shape.id, { graphics, shape, inScene: false });
 
+        // Imported shapes and construction geometry (e.g. offsets) aren't part of the project tree
+        if (!this.hierarchy.has(shape.id)) {
+            this.hierarchy.add({ id: shape.id, type: 'shape', parentId: null });
+        }
+        this.applyLayerState(shape.id);
+
+        if (this.shapeAddedCallback) {
+            this.shapeAddedCallback(shape.id, graphics);
+        }
+
         return graphics;
     }
 
+    // Called for every added shape, including ones brought back by undo/redo
+    onShapeAdded(callback: (id: string, graphics: Graphics) => void): void {
+        this.shapeAddedCallback = callback;
+    }
+
     private calculateShapeBounds(shape: Shape): { minX: number; minY: number; maxX: number; maxY: number } {
         let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
 
@@ -228,12 +372,15 @@ export class ShapeManager {
 
         // Insert all shapes with their bounding boxes
         const items: RBushItem[] = [];
+        this.spatialItems.clear();
         this.shapes.forEach(({ shape }) => {
             const bounds = this.calculateShapeBounds(shape);
-            items.push({
+            const item = {
                 ...bounds,
                 id: shape.id,
-            });
+            };
+            items.push(item);
+            this.spatialItems.set(shape.id, item);
         });
 
         this.spatialIndex.load(items); // Bulk load is faster than individual inserts
@@ -241,6 +388,37 @@ export class ShapeManager {
         console.log(`RBush spatial index built with ${items.length} items`);
     }
 
+    // Add shapes after the spatial index has been built (e.g. an imported layer), as one undo step
+    insertShapes(shapes: Shape[], label: string = 'Import'): Graphics[] {
+        const graphicsList = shapes.map((shape) => {
+            const graphics = this.addShape(shape);
+            this.enableDragAndDrop(shape.id, graphics);
+            this.updateSpatialIndex(shape.id);
+            return graphics;
+        });
+
+        this.recordChanges(label, shapes.map(({ id }) => ({ id, before: null, after: this.snapshotShape(id) })));
+        return graphicsList;
+    }
+
+    // Re-insert a shape whose geometry changed
+    private updateSpatialIndex(id: string): void {
+        if (!this.spatialIndex) return;
+
+        const oldItem = this.spatialItems.get(id);
+        if (oldItem) {
+            this.spatialIndex.remove(oldItem);
+            this.spatialItems.delete(id);
+        }
+
+        const shapeData = this.shapes.get(id);
+        if (shapeData) {
+            const item = { ...this.calculateShapeBounds(shapeData.shape), id };
+            this.spatialIndex.insert(item);
+            this.spatialItems.set(id, item);
+        }
+    }
+
     removeShape(id: string): void {
         const shapeData = this.shapes.get(id);
         if (shapeData) {
@@ -248,6 +426,12 @@ export class ShapeManager {
             shapeData.graphics.destroy();
             this.shapes.delete(id);
         }
+        this.shapesInScene.delete(id);
+        this.staleShapes.delete(id);
+        this.hierarchy.remove(id);
+        this.hiddenShapes.delete(id);
+        this.lockedShapes.delete(id);
+        this.updateSpatialIndex(id);
 
         const label = this.labels.get(id);
         if (label) {
@@ -255,6 +439,8 @@ export class ShapeManager {
             label.destroy();
             this.labels.delete(id);
         }
+        this.labelAnchors.delete(id);
+        this.labelsStale = true;
     }
 
     clear(): void {
@@ -262,7 +448,16 @@ export class ShapeManager {
         this.labels.forEach((label) => label.destroy());
         this.shapes.clear();
         this.labels.clear();
+        this.labelAnchors.clear();
+        this.labelsStale = true;
         this.shapesInScene.clear();
+        this.staleShapes.clear();
+        this.hierarchy.clear();
+        this.spatialIndex = null;
+        this.spatialItems.clear();
+        this.hiddenShapes.clear();
+        this.lockedShapes.clear();
+        this.history.clear();
         this.shapesContainer.removeChildren();
         this.labelsContainer.removeChildren();
     }
@@ -277,6 +472,122 @@ export class ShapeManager {
         return Array.from(this.shapes.values()).map(({ graphics, shape }) => ({ graphics, shape }));
     }
 
+    // Shapes whose bounding box intersects the given world rectangle
+    getShapesInBounds(bounds: { minX: number; minY: number; maxX: number; maxY: number }): Shape[] {
+        if (!this.spatialIndex) {
+            this.buildSpatialIndex();
+        }
+
+        const ids = new Set(this.spatialIndex!.search(bounds).map(item => item.id));
+        const shapes: Shape[] = [];
+        ids.forEach((id) => {
+            const shapeData = this.shapes.get(id);
+            if (shapeData) shapes.push(shapeData.shape);
+        });
+        return shapes;
+    }
+
+    // Load SubArea → Block → Lateral relationships; call before adding the project's shapes
+    setHierarchy(entries: HierarchyEntry[]): void {
+        this.hierarchy.load(entries);
+        this.shapes.forEach((_, id) => {
+            if (!this.hierarchy.has(id)) {
+                this.hierarchy.add({ id, type: 'shape', parentId: null });
+            }
+        });
+    }
+
+    getHierarchy(): ProjectHierarchy {
+        return this.hierarchy;
+    }
+
+    getLayerState(key: string): LayerState {
+        return this.layerStates.get(key) ?? DEFAULT_LAYER_STATE;
+    }
+
+    setLayerState(key: string, changes: Partial<LayerState>): void {
+        this.layerStates.set(key, { ...this.getLayerState(key), ...changes });
+        this.refreshLayerStates();
+    }
+
+    isHidden(id: string): boolean {
+        return this.hiddenShapes.has(id);
+    }
+
+    isLocked(id: string): boolean {
+        return this.lockedShapes.has(id);
+    }
+
+    // Whether culling currently renders the shape: on screen, on a visible layer and not dropped by LOD
+    isInScene(id: string): boolean {
+        return this.shapes.get(id)?.inScene ?? false;
+    }
+
+    // Opacity from the shape's category and its own and its ancestors' layers, on top of its style
+    getLayerOpacity(id: string): number {
+        return this.computeLayerState(id).opacity;
+    }
+
+    // Combine the shape's category with its own and its ancestors' layer states
+    private computeLayerState(id: string): LayerState {
+        const type = this.hierarchy.getType(id) ?? 'shape';
+        const keys = [entityLayerKey(type)];
+        for (let nodeId: string | null = id; nodeId; nodeId = this.hierarchy.getParentId(nodeId)) {
+            keys.push(nodeId);
+        }
+
+        const state = { ...DEFAULT_LAYER_STATE };
+        keys.forEach((key) => {
+            const layer = this.layerStates.get(key);
+            if (!layer) return;
+            state.visible = state.visible && layer.visible;
+            state.locked = state.locked || layer.locked;
+            state.opacity *= layer.opacity;
+        });
+        return state;
+    }
+
+    private applyLayerState(id: string): void {
+        const shapeData = this.shapes.get(id);
+        if (!shapeData) return;
+
+        const state = this.computeLayerState(id);
+        if (state.visible) {
+            this.hiddenShapes.delete(id);
+        } else {
+            this.hiddenShapes.add(id);
+        }
+        if (state.locked) {
+            this.lockedShapes.add(id);
+        } else {
+            this.lockedShapes.delete(id);
+        }
+
+        // Locked shapes let clicks through to whatever is underneath
+        shapeData.graphics.eventMode = state.locked ? 'none' : 'static';
+        shapeData.graphics.alpha = state.opacity;
+    }
+
+    private refreshLayerStates(): void {
+        this.shapes.forEach((_, id) => this.applyLayerState(id));
+
+        // Hidden or locked shapes can't stay selected
+        const deselect = Array.from(this.selectedShapes).filter(id => this.hiddenShapes.has(id) || this.lockedShapes.has(id));
+        if (deselect.length > 0) {
+            const remaining = Array.from(this.selectedShapes).filter(id => !deselect.includes(id));
+            this.selectShapes(remaining);
+        }
+
+        this.refreshCulling();
+    }
+
+    // Re-run culling for the current view after shapes were added, removed or moved
+    private refreshCulling(): void {
+        if (this.lastViewportBounds) {
+            this.cullShapes(this.lastViewportBounds);
+        }
+    }
+
     getShapeCount(): number {
         return this.shapes.size;
     }
@@ -285,11 +596,37 @@ export class ShapeManager {
         const shapeData = this.shapes.get(id);
         if (!shapeData) return;
 
+        // Off-screen shapes are redrawn when culling brings them back, so selecting 100k shapes stays cheap
+        if (!shapeData.inScene) {
+            this.staleShapes.add(id);
+            return;
+        }
+
         const { graphics, shape } = shapeData;
         this.drawShape(graphics, shape, selected);
+        this.labelsStale = true;
+
+        // Follow edits straight away; overlaps are sorted out on the next layout
+        const label = this.labels.get(id);
+        if (label?.parent && shape.type === 'polygon') {
+            const { point } = this.labelAnchor(shape);
+            label.position.set(point.x, point.y);
+        }
+    }
+
+    private redrawIfStale(id: string): void {
+        const shapeData = this.shapes.get(id);
+        if (shapeData && this.staleShapes.delete(id)) {
+            this.drawShape(shapeData.graphics, shapeData.shape, this.selectedShapes.has(id));
+        }
     }
 
     selectShape(id: string, multiSelect: boolean = false): void {
+        this.selectShapes([id], multiSelect);
+    }
+
+    selectShapes(ids: string[], multiSelect: boolean = false): void {
+        this.focusedVertex = null;
         if (!multiSelect) {
             // Clear previous selections
             this.selectedShapes.forEach(selectedId => {
@@ -299,12 +636,15 @@ export class ShapeManager {
             this.clearResizeHandles();
         }
 
-        this.selectedShapes.add(id);
-        this.updateShapeVisuals(id, true);
+        ids.forEach(id => {
+            if (!this.shapes.has(id) || this.lockedShapes.has(id) || this.hiddenShapes.has(id)) return;
+            this.selectedShapes.add(id);
+            this.updateShapeVisuals(id, true);
+        });
 
         // Show resize handles only for single selection
         if (this.selectedShapes.size === 1) {
-            this.createResizeHandles(id);
+            this.createResizeHandles(Array.from(this.selectedShapes)[0]);
             this.enableResize();
         } else {
             this.clearResizeHandles();
@@ -315,6 +655,103 @@ export class ShapeManager {
         }
     }
 
+    // e.g. select all laterals in a block, or all blocks in a SubArea
+    selectChildren(parentId: string, type?: EntityType, multiSelect: boolean = false): void {
+        this.selectShapes(this.hierarchy.getChildIds(parentId, type), multiSelect);
+    }
+
+    // Marquee selection
+    selectInRect(rect: Rect, mode: AreaSelectionMode, operation: SelectionOperation = 'replace'): void {
+        if (!this.spatialIndex) {
+            this.buildSpatialIndex();
+        }
+
+        const candidates = mode === 'window'
+            ? this.spatialIndex!.search(rect).filter(item =>
+                item.minX >= rect.minX && item.maxX <= rect.maxX && item.minY >= rect.minY && item.maxY <= rect.maxY)
+            : this.spatialIndex!.search(rect).filter(item => this.shapeIntersectsRect(item.id, rect));
+
+        this.applySelection(candidates.map(item => item.id), operation);
+    }
+
+    // Lasso/fence selection: the index narrows it to the fence's bounds, then each shape is tested exactly
+    selectInPolygon(fence: Coordinate[], mode: AreaSelectionMode, operation: SelectionOperation = 'replace'): void {
+        if (fence.length < 3) return;
+        if (!this.spatialIndex) {
+            this.buildSpatialIndex();
+        }
+
+        const rect = {
+            minX: Math.min(...fence.map(coord => coord.x)),
+            minY: Math.min(...fence.map(coord => coord.y)),
+            maxX: Math.max(...fence.map(coord => coord.x)),
+            maxY: Math.max(...fence.map(coord => coord.y)),
+        };
+
+        const candidates = mode === 'window'
+            ? this.spatialIndex!.search(rect).filter(item =>
+                item.minX >= rect.minX && item.maxX <= rect.maxX && item.minY >= rect.minY && item.maxY <= rect.maxY &&
+                this.shapeInsidePolygon(item.id, fence))
+            : this.spatialIndex!.search(rect).filter(item => this.shapeIntersectsPolygon(item.id, fence));
+
+        this.applySelection(candidates.map(item => item.id), operation);
+    }
+
+    private applySelection(ids: string[], operation: SelectionOperation): void {
+        if (operation === 'subtract') {
+            this.deselectShapes(ids);
+        } else {
+            this.selectShapes(ids, operation === 'add');
+        }
+    }
+
+    private shapeVertices(shape: Shape): Coordinate[] {
+        if (shape.type === 'polygon') return shape.coordinates;
+        if (shape.type === 'line') return shape.points;
+        return [shape.coordinate];
+    }
+
+    private shapeInsidePolygon(id: string, fence: Coordinate[]): boolean {
+        const shape = this.shapes.get(id)?.shape;
+        if (!shape) return false;
+
+        const vertices = this.shapeVertices(shape);
+        return vertices.every(vertex => pointInPolygon(vertex, fence)) &&
+            !polylinesIntersect(vertices, fence, shape.type === 'polygon', true);
+    }
+
+    private shapeIntersectsPolygon(id: string, fence: Coordinate[]): boolean {
+        const shape = this.shapes.get(id)?.shape;
+        if (!shape) return false;
+
+        const vertices = this.shapeVertices(shape);
+        return vertices.some(vertex => pointInPolygon(vertex, fence)) ||
+            (vertices.length > 1 && polylinesIntersect(vertices, fence, shape.type === 'polygon', true)) ||
+            // Fence drawn entirely inside a polygon
+            (shape.type === 'polygon' && pointInPolygon(fence[0], shape.coordinates));
+    }
+
+    // Bounding boxes only narrow it down; a diagonal line's box can overlap the rect without the line doing so
+    private shapeIntersectsRect(id: string, rect: Rect): boolean {
+        const shape = this.shapes.get(id)?.shape;
+        if (!shape) return false;
+
+        if (shape.type === 'polygon') {
+            return polygonIntersectsRect(shape.coordinates, rect);
+        } else if (shape.type === 'line') {
+            return polylineIntersectsRect(shape.points, rect);
+        }
+        return circleIntersectsRect(shape.coordinate, shape.radius || 5, rect);
+    }
+
+    deselectShapes(ids: string[]): void {
+        const remaining = new Set(this.selectedShapes);
+        ids.forEach(id => remaining.delete(id));
+        if (remaining.size === this.selectedShapes.size) return;
+
+        this.selectShapes(Array.from(remaining));
+    }
+
     deselectShape(id: string): void {
         if (this.selectedShapes.has(id)) {
             this.selectedShapes.delete(id);
@@ -336,6 +773,7 @@ export class ShapeManager {
     }
 
     clearSelection(): void {
+        this.focusedVertex = null;
         this.selectedShapes.forEach(id => {
             this.updateShapeVisuals(id, false);
         });
@@ -373,12 +811,15 @@ export class ShapeManager {
 
         const { shape } = shapeData;
 
-        if (shape.type === 'polygon') {
-            // Create handles for each vertex of the polygon
-            shape.coordinates.forEach((coord, index) => {
+        if (shape.type === 'polygon' || shape.type === 'line') {
+            const vertices = this.shapeVertices(shape);
+
+            // Create handles for each vertex
+            vertices.forEach((coord, index) => {
                 const handle = new Graphics() as ResizeHandleGraphics;
+                const focused = this.focusedVertex?.shapeId === shapeId && this.focusedVertex.index === index;
                 handle.rect(-4, -4, 8, 8);
-                handle.fill({ color: 0xffffff });
+                handle.fill({ color: focused ? DEFAULT_SHAPE_STYLES.selection.color : 0xffffff });
                 handle.stroke({ width: 2, color: DEFAULT_SHAPE_STYLES.selection.color });
                 handle.position.set(coord.x, coord.y);
                 handle.eventMode = 'static';
@@ -391,6 +832,25 @@ export class ShapeManager {
                 this.resizeHandlesContainer.addChild(handle);
                 this.resizeHandles.push(handle);
             });
+
+            // Ghost handles halfway along each edge
+            const edgeCount = shape.type === 'polygon' ? vertices.length : vertices.length - 1;
+            for (let index = 0; index < edgeCount; index++) {
+                const handle = new Graphics() as ResizeHandleGraphics;
+                handle.circle(0, 0, 3);
+                handle.fill({ color: 0xffffff, alpha: 0.6 });
+                handle.stroke({ width: 1, color: DEFAULT_SHAPE_STYLES.selection.color, alpha: 0.6 });
+                handle.eventMode = 'static';
+                handle.cursor = 'copy';
+
+                handle.handleIndex = index;
+                handle.shapeId = shapeId;
+                handle.isMidpoint = true;
+
+                this.resizeHandlesContainer.addChild(handle);
+                this.resizeHandles.push(handle);
+            }
+            this.updateResizeHandles(shapeId);
         } else if (shape.type === 'point') {
             // Create handles for point resize
             const directions = [
@@ -422,14 +882,22 @@ export class ShapeManager {
 
     private updateResizeHandles(shapeId: string): void {
         const shapeData = this.shapes.get(shapeId);
-        if (!shapeData) return;
+        if (!shapeData || this.handlesNeedRebuild) return;
 
         const { shape } = shapeData;
 
-        if (shape.type === 'polygon') {
-            shape.coordinates.forEach((coord, index) => {
-                if (this.resizeHandles[index]) {
-                    this.resizeHandles[index].position.set(coord.x, coord.y);
+        if (shape.type === 'polygon' || shape.type === 'line') {
+            const vertices = this.shapeVertices(shape);
+            this.resizeHandles.forEach((handle) => {
+                const index = handle.handleIndex ?? 0;
+                const coord = vertices[index];
+                if (!coord) return;
+
+                if (handle.isMidpoint) {
+                    const next = vertices[(index + 1) % vertices.length];
+                    handle.position.set((coord.x + next.x) / 2, (coord.y + next.y) / 2);
+                } else {
+                    handle.position.set(coord.x, coord.y);
                 }
             });
         } else if (shape.type === 'point') {
@@ -455,24 +923,30 @@ export class ShapeManager {
             if (this.isSelected(shapeId) && graphics.parent) {
                 this.isDragging = true;
                 this.activeShapeId = shapeId;
+                // Every selected shape moves with the grabbed one, and so do their children unless Alt detaches them
+                const selected = this.getSelectedShapes();
+                this.carriedShapes = new Set(this.carryChildren && !event.altKey ? this.collectChildShapes(selected) : []);
+                this.dragSnapshots = [...selected, ...this.carriedShapes]
+                    .map(id => this.snapshotShape(id))
+                    .filter((record): record is ShapeRecord => record !== null);
 
                 const shapeData = this.shapes.get(shapeId);
                 if (shapeData) {
                     const globalPos = event.global;
                     const localPos = graphics.parent.toLocal(globalPos);
 
-                    if (shapeData.shape.type === 'polygon') {
-                        const firstCoord = shapeData.shape.coordinates[0];
-                        this.dragOffset.x = localPos.x - firstCoord.x;
-                        this.dragOffset.y = localPos.y - firstCoord.y;
-                    } else if (shapeData.shape.type === 'point') {
-                        this.dragOffset.x = localPos.x - shapeData.shape.coordinate.x;
-                        this.dragOffset.y = localPos.y - shapeData.shape.coordinate.y;
-                    } else if (shapeData.shape.type === 'line') {
-                        const firstPoint = shapeData.shape.points[0];
-                        this.dragOffset.x = localPos.x - firstPoint.x;
-                        this.dragOffset.y = localPos.y - firstPoint.y;
-                    }
+                    const vertices = this.shapeVertices(shapeData.shape);
+                    this.dragAnchorIndex = 0;
+                    vertices.forEach((vertex, index) => {
+                        const nearest = vertices[this.dragAnchorIndex];
+                        if (Math.hypot(vertex.x - localPos.x, vertex.y - localPos.y) < Math.hypot(nearest.x - localPos.x, nearest.y - localPos.y)) {
+                            this.dragAnchorIndex = index;
+                        }
+                    });
+
+                    const anchor = vertices[this.dragAnchorIndex];
+                    this.dragOffset.x = localPos.x - anchor.x;
+                    this.dragOffset.y = localPos.y - anchor.y;
                 }
             }
         });
@@ -482,13 +956,94 @@ export class ShapeManager {
         this.resizeHandles.forEach((handle) => {
             handle.on('pointerdown', (event) => {
                 event.stopPropagation();
+                const shapeId = handle.shapeId ?? null;
+                const shape = shapeId ? this.shapes.get(shapeId)?.shape : undefined;
+                if (!shapeId || !shape) return;
+
+                const index = handle.handleIndex ?? -1;
+                const isVertexHandle = (shape.type === 'polygon' || shape.type === 'line') && !handle.isMidpoint;
+
+                // Alt-click removes the vertex instead of dragging it
+                if (isVertexHandle && event.altKey) {
+                    this.deleteVertex(shapeId, index);
+                    return;
+                }
+
+                const before = this.snapshotShape(shapeId);
+                this.dragSnapshots = before ? [before] : [];
                 this.isResizing = true;
-                this.resizeHandleIndex = handle.handleIndex ?? -1;
-                this.activeShapeId = handle.shapeId ?? null;
+                this.activeShapeId = shapeId;
+                this.resizeHandleIndex = index;
+
+                if (handle.isMidpoint) {
+                    // Split the edge and drag the new vertex; this handle goes away, so rebuild on the next move
+                    const vertices = this.shapeVertices(shape);
+                    const start = vertices[index];
+                    const end = vertices[(index + 1) % vertices.length];
+                    vertices.splice(index + 1, 0, { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 });
+                    this.resizeHandleIndex = index + 1;
+                    this.focusedVertex = { shapeId, index: index + 1 };
+                    this.handlesNeedRebuild = true;
+                    this.dragLabel = 'Insert vertex';
+                } else if (isVertexHandle) {
+                    this.setFocusedVertex(shapeId, index);
+                    this.dragLabel = 'Move vertex';
+                } else {
+                    this.dragLabel = 'Resize';
+                }
             });
         });
     }
 
+    private setFocusedVertex(shapeId: string, index: number): void {
+        this.focusedVertex = { shapeId, index };
+        this.resizeHandles.forEach((handle) => {
+            if (handle.isMidpoint) return;
+
+            const focused = handle.handleIndex === index;
+            handle.clear();
+            handle.rect(-4, -4, 8, 8);
+            handle.fill({ color: focused ? DEFAULT_SHAPE_STYLES.selection.color : 0xffffff });
+            handle.stroke({ width: 2, color: DEFAULT_SHAPE_STYLES.selection.color });
+        });
+    }
+
+    // Remove a polygon/line vertex as one undo step, keeping the type's minimum vertex count
+    deleteVertex(shapeId: string, index: number): boolean {
+        const shape = this.shapes.get(shapeId)?.shape;
+        if (!shape || (shape.type !== 'polygon' && shape.type !== 'line')) return false;
+
+        const vertices = this.shapeVertices(shape);
+        if (index < 0 || index >= vertices.length || vertices.length <= MIN_VERTICES[shape.type]) return false;
+
+        const before = this.snapshotShape(shapeId);
+        vertices.splice(index, 1);
+        this.updateShapeVisuals(shapeId, this.selectedShapes.has(shapeId));
+        this.updateSpatialIndex(shapeId);
+        if (before) {
+            this.recordChanges('Delete vertex', [{ id: shapeId, before, after: this.snapshotShape(shapeId) }]);
+        }
+
+        // Keep a neighbouring vertex focused so Delete can be pressed repeatedly
+        this.focusedVertex = { shapeId, index: Math.max(0, index - 1) };
+        this.refreshResizeHandles([shapeId]);
+        this.notifyShapesChanged([shapeId]);
+        return true;
+    }
+
+    // Delete key on a focused vertex handle; false when no vertex handle is focused
+    deleteFocusedVertex(): boolean {
+        const focused = this.focusedVertex;
+        if (!focused || this.selectedShapes.size !== 1 || !this.selectedShapes.has(focused.shapeId)) return false;
+
+        const shape = this.shapes.get(focused.shapeId)?.shape;
+        if (!shape || (shape.type !== 'polygon' && shape.type !== 'line') || focused.index >= this.shapeVertices(shape).length) return false;
+
+        // Handled even when the minimum vertex count blocks it, so the shape itself isn't deleted instead
+        this.deleteVertex(focused.shapeId, focused.index);
+        return true;
+    }
+
     handlePointerMove(event: {global: {x: number; y: number}}): void {
         if (this.isDragging && this.activeShapeId) {
             const shapeData = this.shapes.get(this.activeShapeId);
@@ -497,28 +1052,23 @@ export class ShapeManager {
             const globalPos = event.global;
             const localPos = this.shapesContainer.toLocal(globalPos);
 
-            if (shapeData.shape.type === 'polygon') {
-                const dx = localPos.x - this.dragOffset.x - shapeData.shape.coordinates[0].x;
-                const dy = localPos.y - this.dragOffset.y - shapeData.shape.coordinates[0].y;
+            // The grabbed shape follows the pointer, the rest of the selection moves by the same amount
+            const anchor = this.shapeVertices(shapeData.shape)[this.dragAnchorIndex];
+            const moving = this.carriedShapes.size > 0 ? new Set([...this.selectedShapes, ...this.carriedShapes]) : this.selectedShapes;
+            const target = this.snapPoint(
+                { x: localPos.x - this.dragOffset.x, y: localPos.y - this.dragOffset.y },
+                { exclude: moving },
+            );
+            const dx = target.x - anchor.x;
+            const dy = target.y - anchor.y;
 
-                shapeData.shape.coordinates.forEach(coord => {
-                    coord.x += dx;
-                    coord.y += dy;
-                });
-            } else if (shapeData.shape.type === 'point') {
-                shapeData.shape.coordinate.x = localPos.x - this.dragOffset.x;
-                shapeData.shape.coordinate.y = localPos.y - this.dragOffset.y;
-            } else if (shapeData.shape.type === 'line') {
-                const dx = localPos.x - this.dragOffset.x - shapeData.shape.points[0].x;
-                const dy = localPos.y - this.dragOffset.y - shapeData.shape.points[0].y;
-
-                shapeData.shape.points.forEach(point => {
-                    point.x += dx;
-                    point.y += dy;
-                });
-            }
+            moving.forEach((id) => {
+                const shape = this.shapes.get(id);
+                if (!shape) return;
 
-            this.updateShapeVisuals(this.activeShapeId, true);
+                this.translateShape(shape.shape, dx, dy);
+                this.updateShapeVisuals(id, this.selectedShapes.has(id));
+            });
             this.updateResizeHandles(this.activeShapeId);
         } else if (this.isResizing && this.activeShapeId) {
             const shapeData = this.shapes.get(this.activeShapeId);
@@ -527,10 +1077,26 @@ export class ShapeManager {
             const globalPos = event.global;
             const localPos = this.shapesContainer.toLocal(globalPos);
 
-            if (shapeData.shape.type === 'polygon') {
+            if (this.handlesNeedRebuild) {
+                this.handlesNeedRebuild = false;
+                this.createResizeHandles(this.activeShapeId);
+                this.enableResize();
+            }
+
+            if (shapeData.shape.type === 'polygon' || shapeData.shape.type === 'line') {
                 // Move the specific vertex
-                shapeData.shape.coordinates[this.resizeHandleIndex].x = localPos.x;
-                shapeData.shape.coordinates[this.resizeHandleIndex].y = localPos.y;
+                const vertices = this.shapeVertices(shapeData.shape);
+                const previous = this.resizeHandleIndex > 0
+                    ? vertices[this.resizeHandleIndex - 1]
+                    : shapeData.shape.type === 'polygon' ? vertices[vertices.length - 1] : undefined;
+                const target = this.snapPoint(
+                    { x: localPos.x, y: localPos.y },
+                    { exclude: new Set([this.activeShapeId]), from: previous },
+                );
+
+                const vertex = vertices[this.resizeHandleIndex];
+                vertex.x = target.x;
+                vertex.y = target.y;
             } else if (shapeData.shape.type === 'point') {
                 // Resize the point by adjusting radius
                 const dx = localPos.x - shapeData.shape.coordinate.x;
@@ -544,11 +1110,177 @@ export class ShapeManager {
         }
     }
 
-    handlePointerUp(): void {
+    // True when the drag or vertex edit that just ended changed any shape
+    handlePointerUp(): boolean {
+        const changed = (this.isDragging || this.isResizing) && this.commitDragSnapshots(this.isDragging ? 'Move' : this.dragLabel);
+
+        this.snapEngine?.clearMarker();
+
+        // An inserted vertex that was never dragged still needs its handles
+        if (this.handlesNeedRebuild && this.activeShapeId) {
+            this.handlesNeedRebuild = false;
+            this.refreshResizeHandles([this.activeShapeId]);
+        }
+
+        this.dragSnapshots = [];
+        this.carriedShapes = new Set();
         this.isDragging = false;
         this.isResizing = false;
         this.activeShapeId = null;
         this.resizeHandleIndex = -1;
+        return changed;
+    }
+
+    // Record everything that changed since dragSnapshots were taken as one step
+    private commitDragSnapshots(label: string): boolean {
+        // A click without movement isn't an edit
+        const changes: ShapeChange[] = [];
+        this.dragSnapshots.forEach((before) => {
+            const after = this.snapshotShape(before.shape.id);
+            if (after && JSON.stringify(before.shape) !== JSON.stringify(after.shape)) {
+                changes.push({ id: before.shape.id, before, after });
+            }
+        });
+
+        if (changes.length > 0) {
+            // Bounds changed during the drag
+            const changed = changes.map(({ id }) => id);
+            changed.forEach(id => this.updateSpatialIndex(id));
+            this.recordChanges(label, changes);
+            this.refreshCulling();
+            this.notifyShapesChanged(changed);
+        }
+        return changes.length > 0;
+    }
+
+    // Combined bounds of the given shapes, null when none exist
+    getShapesBounds(ids: string[]): Rect | null {
+        let bounds: Rect | null = null;
+        ids.forEach((id) => {
+            const shape = this.shapes.get(id)?.shape;
+            if (!shape) return;
+
+            const { minX, minY, maxX, maxY } = this.calculateShapeBounds(shape);
+            bounds = bounds ? {
+                minX: Math.min(bounds.minX, minX),
+                minY: Math.min(bounds.minY, minY),
+                maxX: Math.max(bounds.maxX, maxX),
+                maxY: Math.max(bounds.maxY, maxY),
+            } : { minX, minY, maxX, maxY };
+        });
+        return bounds;
+    }
+
+    // Interactive rotate/scale of the selection: begin, preview any number of times, then end as one undo step.
+    // detach leaves the children behind even when they'd normally be carried.
+    beginTransform(label: string, detach: boolean = false): void {
+        const selected = this.getSelectedShapes();
+        const children = this.carryChildren && !detach ? this.collectChildShapes(selected) : [];
+        this.dragSnapshots = [...selected, ...children]
+            .map(id => this.snapshotShape(id))
+            .filter((record): record is ShapeRecord => record !== null);
+        this.dragLabel = label;
+        this.isTransforming = true;
+    }
+
+    // Each preview starts from the state at beginTransform, so transforms don't accumulate
+    previewTransform(transform: ShapeTransform): void {
+        if (!this.isTransforming) return;
+
+        this.dragSnapshots.forEach((before) => {
+            const id = before.shape.id;
+            const shapeData = this.shapes.get(id);
+            if (!shapeData) return;
+
+            const target = this.shapeVertices(shapeData.shape);
+            this.shapeVertices(before.shape).forEach((coord, index) => {
+                const { x, y } = transformCoordinate(coord, transform);
+                target[index].x = x;
+                target[index].y = y;
+            });
+            this.updateShapeVisuals(id, this.selectedShapes.has(id));
+        });
+
+        if (this.selectedShapes.size === 1) {
+            this.updateResizeHandles(Array.from(this.selectedShapes)[0]);
+        }
+    }
+
+    endTransform(): void {
+        if (!this.isTransforming) return;
+
+        this.commitDragSnapshots(this.dragLabel);
+        this.dragSnapshots = [];
+        this.isTransforming = false;
+    }
+
+    setCarryChildren(enabled: boolean): void {
+        this.carryChildren = enabled;
+    }
+
+    // Everything that belongs to the given shapes, however deep, apart from locked shapes (which never move).
+    // Project entities own their hierarchy children; a hand-drawn polygon owns the shapes lying entirely inside it.
+    private collectChildShapes(ids: string[]): string[] {
+        const seen = new Set(ids);
+        const children: string[] = [];
+        const pending = [...ids];
+
+        while (pending.length > 0) {
+            const id = pending.pop()!;
+            this.directChildShapes(id).forEach((childId) => {
+                if (seen.has(childId) || this.lockedShapes.has(childId)) return;
+
+                seen.add(childId);
+                children.push(childId);
+                pending.push(childId);
+            });
+        }
+        return children;
+    }
+
+    private directChildShapes(id: string): string[] {
+        const childIds = this.hierarchy.getChildIds(id);
+        const shape = this.shapes.get(id)?.shape;
+        // Only entities loaded from the project file carry a sourceId
+        if (childIds.length > 0 || shape?.type !== 'polygon' || this.hierarchy.get(id)?.sourceId !== undefined) {
+            return childIds;
+        }
+
+        // Equal polygons would contain each other; only strictly smaller ones count as inside
+        const area = polygonArea(shape.coordinates);
+        return this.getShapesInBounds(this.calculateShapeBounds(shape))
+            .filter(other => other.id !== id &&
+                this.shapeVertices(other).every(vertex => pointInPolygon(vertex, shape.coordinates)) &&
+                (other.type !== 'polygon' || polygonArea(other.coordinates) < area))
+            .map(other => other.id);
+    }
+
+    // True while a drag, vertex edit or transform is changing shapes
+    isEditing(): boolean {
+        return this.isDragging || this.isResizing || this.isTransforming;
+    }
+
+    // Numeric rotate/scale of the selection as one undo step
+    transformSelection(transform: ShapeTransform, label: string): void {
+        this.beginTransform(label);
+        this.previewTransform(transform);
+        this.endTransform();
+    }
+
+    // Drags and vertex edits snap through this when an engine is attached
+    setSnapEngine(engine: SnapEngine | null): void {
+        this.snapEngine = engine;
+    }
+
+    private snapPoint(point: Coordinate, options: SnapOptions): Coordinate {
+        return this.snapEngine ? this.snapEngine.snapPoint(point, options) : point;
+    }
+
+    private translateShape(shape: Shape, dx: number, dy: number): void {
+        this.shapeVertices(shape).forEach((coord) => {
+            coord.x += dx;
+            coord.y += dy;
+        });
     }
 
     private makeShapeVisible(id: string): void {
@@ -556,59 +1288,53 @@ export class ShapeManager {
         if (!shapeData || shapeData.inScene) return;
 
         // Add to scene
+        this.redrawIfStale(id);
         this.shapesContainer.addChild(shapeData.graphics);
         shapeData.inScene = true;
         this.shapesInScene.add(id);
+        this.labelsStale = true;
 
         // Update spatial index if it exists
-        if (this.spatialIndex) {
-            const bounds = this.calculateShapeBounds(shapeData.shape);
-            this.spatialIndex.insert({
-                ...bounds,
-                id,
-            });
-        }
+        this.updateSpatialIndex(id);
     }
 
-    createNewPolygon(x: number, y: number, size: number = 50): Shape {
+    // Vertices come from the drawing tool, in scene coordinates
+    createNewPolygon(coordinates: Coordinate[]): Shape {
         const id = `polygon-${Date.now()}`;
-        const halfSize = size / 2;
 
         const newShape: Shape = {
             id,
             type: 'polygon',
-            coordinates: [
-                { x: x - halfSize, y: y - halfSize },
-                { x: x + halfSize, y: y - halfSize },
-                { x: x + halfSize, y: y + halfSize },
-                { x: x - halfSize, y: y + halfSize },
-            ],
-            style: DEFAULT_SHAPE_STYLES.polygon,
+            coordinates: coordinates.map(coord => ({ ...coord })),
+            style: { ...DEFAULT_SHAPE_STYLES.polygon },
         };
 
+        this.addProjectEntry(newShape);
         const graphics = this.addShape(newShape);
         this.enableDragAndDrop(id, graphics);
         this.makeShapeVisible(id);
+        this.attachToContainer(id);
+        this.recordChanges('Create', [{ id, before: null, after: this.snapshotShape(id) }]);
 
         return newShape;
     }
 
-    createNewLine(x: number, y: number, length: number = 100): Shape {
+    createNewLine(points: Coordinate[]): Shape {
         const id = `line-${Date.now()}`;
 
         const newShape: Shape = {
             id,
             type: 'line',
-            points: [
-                { x, y },
-                { x: x + length, y },
-            ],
-            style: DEFAULT_SHAPE_STYLES.line,
+            points: points.map(point => ({ ...point })),
+            style: { ...DEFAULT_SHAPE_STYLES.line },
         };
 
+        this.addProjectEntry(newShape);
         const graphics = this.addShape(newShape);
         this.enableDragAndDrop(id, graphics);
         this.makeShapeVisible(id);
+        this.attachToContainer(id);
+        this.recordChanges('Create', [{ id, before: null, after: this.snapshotShape(id) }]);
 
         return newShape;
     }
@@ -631,16 +1357,369 @@ export class ShapeManager {
         const graphics = this.addShape(newShape);
         this.enableDragAndDrop(id, graphics);
         this.makeShapeVisible(id);
+        this.recordChanges('Create', [{ id, before: null, after: this.snapshotShape(id) }]);
 
         return newShape;
     }
 
+    // Drawn and pasted polygons and lines are project content, exported as new Blocks and Laterals.
+    // Imported reference shapes keep their layer and stay plain shapes.
+    private addProjectEntry(shape: Shape): void {
+        if (shape.layer !== undefined || shape.type === 'point') return;
+        this.hierarchy.add({ id: shape.id, type: shape.type === 'polygon' ? 'block' : 'lateral', parentId: null });
+    }
+
+    // Put a new Block under the SubArea its first vertex is in, or a new Lateral under the Block its first
+    // point is in, so layer rows and carried moves see it straight away. Shapes created alongside it come
+    // first, so a pasted block keeps its pasted laterals.
+    private attachToContainer(id: string, batch: ReadonlySet<string> = new Set()): void {
+        const shape = this.shapes.get(id)?.shape;
+        const type = this.hierarchy.getType(id);
+        if (!shape || shape.type === 'point' || (type !== 'block' && type !== 'lateral')) return;
+
+        const first = shape.type === 'polygon' ? shape.coordinates[0] : shape.points[0];
+        const containerType = type === 'block' ? 'subarea' : 'block';
+        const containers = this.getShapesInBounds({ minX: first.x, minY: first.y, maxX: first.x, maxY: first.y })
+            .filter((other): other is PolygonShape => other.id !== id && other.type === 'polygon' &&
+                this.hierarchy.getType(other.id) === containerType && pointInPolygon(first, other.coordinates))
+            .sort((a, b) => Number(batch.has(b.id)) - Number(batch.has(a.id)));
+
+        this.hierarchy.setParent(id, containers[0]?.id ?? null);
+        this.applyLayerState(id);
+    }
+
+    // Lets tools that draw over shapes (lasso, fence) receive clicks on top of them
+    setShapesInteractive(interactive: boolean): void {
+        this.shapesContainer.interactiveChildren = interactive;
+        this.resizeHandlesContainer.interactiveChildren = interactive;
+    }
+
     getShapeById(id: string): Shape | undefined {
         return this.shapes.get(id)?.shape;
     }
 
+    onShapesChanged(callback: (changedIds: string[]) => void): void {
+        this.shapesChangedCallback = callback;
+    }
+
+    private notifyShapesChanged(ids: string[]): void {
+        if (this.shapesChangedCallback && ids.length > 0) {
+            this.shapesChangedCallback(ids);
+        }
+    }
+
+    private applyShapeUpdate(id: string, update: ShapeUpdate): boolean {
+        const shapeData = this.shapes.get(id);
+        if (!shapeData) return false;
+
+        const { shape } = shapeData;
+        if (update.style) {
+            shape.style = { ...shape.style, ...update.style };
+        }
+        if (shape.type === 'polygon' && update.coordinates && update.coordinates.length >= 3) {
+            shape.coordinates = update.coordinates.map(coord => ({ ...coord }));
+        } else if (shape.type === 'line' && update.points && update.points.length >= 2) {
+            shape.points = update.points.map(point => ({ ...point }));
+        } else if (shape.type === 'point') {
+            if (update.coordinate) {
+                shape.coordinate = { ...update.coordinate };
+            }
+            if (update.radius !== undefined) {
+                shape.radius = Math.max(3, update.radius);
+            }
+        }
+
+        this.updateShapeVisuals(id, this.selectedShapes.has(id));
+        this.updateSpatialIndex(id);
+        return true;
+    }
+
+    // Apply style and/or geometry changes and redraw
+    updateShape(id: string, update: ShapeUpdate): void {
+        this.updateShapes([id], update);
+    }
+
+    updateShapes(ids: string[], update: ShapeUpdate): void {
+        const changes: ShapeChange[] = [];
+        ids.forEach((id) => {
+            const before = this.snapshotShape(id);
+            if (before && this.applyShapeUpdate(id, update)) {
+                changes.push({ id, before, after: this.snapshotShape(id) });
+            }
+        });
+
+        // Dragging a slider or colour picker produces a stream of updates; keep them as one step
+        const mergeKey = `edit:${ids.join(',')}:${Object.keys(update).join(',')}:${Object.keys(update.style ?? {}).join(',')}`;
+        this.recordChanges('Edit', changes, mergeKey);
+
+        const changed = changes.map(({ id }) => id);
+        this.refreshResizeHandles(changed);
+        this.notifyShapesChanged(changed);
+    }
+
+    // Delete shapes (with their children when those are carried) as one undo step
+    deleteShapes(ids: string[]): void {
+        const changes: ShapeChange[] = [];
+        const targets = this.carryChildren ? [...ids, ...this.collectChildShapes(ids)] : ids;
+        targets.forEach((id) => {
+            const before = this.snapshotShape(id);
+            if (before) {
+                changes.push({ id, before, after: null });
+            }
+        });
+
+        this.applyRecords(changes.map(({ id }) => ({ id, record: null })));
+        this.recordChanges('Delete', changes);
+    }
+
+    duplicateShapes(ids: string[], offset: Coordinate): string[] {
+        const shapes = ids
+            .map(id => this.shapes.get(id)?.shape)
+            .filter((shape): shape is Shape => shape !== undefined);
+        return this.pasteShapes(shapes, offset, 'Duplicate');
+    }
+
+    // Add copies under fresh ids, shifted by offset, as one undo step. The copies become the selection.
+    pasteShapes(shapes: Shape[], offset: Coordinate, label: string = 'Paste'): string[] {
+        const stamp = Date.now();
+        const copies = shapes.map((shape, index) => {
+            const copy = structuredClone(shape);
+            copy.id = `${shape.type}-${stamp}-${index}`;
+            this.translateShape(copy, offset.x, offset.y);
+            // Copies of construction geometry (e.g. offsets) stay construction geometry
+            if (this.hierarchy.getType(shape.id) !== 'shape') {
+                this.addProjectEntry(copy);
+            }
+            return copy;
+        });
+        return this.createShapes(copies, label);
+    }
+
+    // Add polygons under fresh ids (e.g. offsets) as one undo step. They become the selection. They're
+    // plain construction shapes, which the project export leaves out.
+    addPolygons(polygons: Array<{ coordinates: Coordinate[]; style: ShapeStyle }>, label: string): string[] {
+        const stamp = Date.now();
+        return this.createShapes(polygons.map(({ coordinates, style }, index) => ({
+            id: `polygon-${stamp}-${index}`,
+            type: 'polygon',
+            coordinates,
+            style: { ...style },
+        })), label);
+    }
+
+    private createShapes(shapes: Shape[], label: string): string[] {
+        shapes.forEach((shape) => {
+            const graphics = this.addShape(shape);
+            this.enableDragAndDrop(shape.id, graphics);
+            this.updateSpatialIndex(shape.id);
+        });
+
+        const ids = shapes.map(({ id }) => id);
+        const batch = new Set(ids);
+        ids.forEach(id => this.attachToContainer(id, batch));
+        this.recordChanges(label, ids.map(id => ({ id, before: null, after: this.snapshotShape(id) })));
+        this.refreshCulling();
+        this.selectShapes(ids);
+        this.notifyShapesChanged(ids);
+        return ids;
+    }
+
+    // Swap a block's laterals for new ones (e.g. regenerated to fit a reshaped block) as one undo step
+    replaceLaterals(blockId: string, laterals: Coordinate[][], style: ShapeStyle): string[] {
+        if (!this.shapes.has(blockId)) return [];
+
+        const changes: ShapeChange[] = [];
+        this.hierarchy.getChildIds(blockId, 'lateral').forEach((id) => {
+            const before = this.snapshotShape(id);
+            if (before) {
+                changes.push({ id, before, after: null });
+            }
+        });
+
+        const stamp = Date.now();
+        const ids = laterals.map((points, index) => {
+            const id = `lateral-${stamp}-${index}`;
+            changes.push({
+                id,
+                before: null,
+                after: {
+                    shape: { id, type: 'line', points, style: { ...style } },
+                    hierarchy: { id, type: 'lateral', parentId: blockId, number: index },
+                    childIds: [],
+                },
+            });
+            return id;
+        });
+
+        this.applyRecords(changes.map(({ id, after }) => ({ id, record: after })));
+        this.recordChanges('Generate laterals', changes);
+        return ids;
+    }
+
+    // Replace a polygon with the result of a boolean operation or split as one undo step. The largest
+    // ring stays on the target (keeping its place in the hierarchy); any others become new polygons with
+    // its style and parent. Consumed polygons are removed and their children move to the target.
+    replacePolygons(targetId: string, rings: Coordinate[][], removeIds: string[], label: string): string[] {
+        const target = this.snapshotShape(targetId);
+        const polygon = target?.shape;
+        if (!target || polygon?.type !== 'polygon' || rings.length === 0) return [];
+
+        const changes: ShapeChange[] = [];
+        const [largest, ...rest] = rings;
+        changes.push({
+            id: targetId,
+            before: target,
+            after: { ...target, shape: { ...polygon, coordinates: largest } },
+        });
+
+        const stamp = Date.now();
+        const ids = rest.map((coordinates, index) => {
+            const id = `polygon-${stamp}-${index}`;
+            changes.push({
+                id,
+                before: null,
+                after: {
+                    shape: { id, type: 'polygon', coordinates, style: { ...polygon.style }, layer: polygon.layer },
+                    hierarchy: { id, type: target.hierarchy.type, parentId: target.hierarchy.parentId },
+                    childIds: [],
+                },
+            });
+            return id;
+        });
+
+        removeIds.filter(id => id !== targetId).forEach((id) => {
+            const before = this.snapshotShape(id);
+            if (!before) return;
+
+            changes.push({ id, before, after: null });
+            before.childIds.forEach((childId) => {
+                const child = this.snapshotShape(childId);
+                if (child) {
+                    changes.push({ id: childId, before: child, after: { ...child, hierarchy: { ...child.hierarchy, parentId: targetId } } });
+                }
+            });
+        });
+
+        this.applyRecords(changes.map(({ id, after }) => ({ id, record: after })));
+        this.recordChanges(label, changes);
+        this.selectShapes([targetId, ...ids]);
+        return [targetId, ...ids];
+    }
+
+    undo(): boolean {
+        // Mid-drag the shape is still changing; the drag is recorded on pointer up
+        if (this.isDragging || this.isResizing || this.isTransforming) return false;
+        return this.history.undo() !== null;
+    }
+
+    redo(): boolean {
+        if (this.isDragging || this.isResizing || this.isTransforming) return false;
+        return this.history.redo() !== null;
+    }
+
+    canUndo(): boolean {
+        return this.history.canUndo();
+    }
+
+    canRedo(): boolean {
+        return this.history.canRedo();
+    }
+
+    getUndoLabel(): string | null {
+        return this.history.getUndoLabel();
+    }
+
+    getRedoLabel(): string | null {
+        return this.history.getRedoLabel();
+    }
+
+    onHistoryChanged(callback: () => void): void {
+        this.history.onChanged(callback);
+    }
+
+    private snapshotShape(id: string): ShapeRecord | null {
+        const shapeData = this.shapes.get(id);
+        const node = this.hierarchy.get(id);
+        if (!shapeData || !node) return null;
+
+        const { childIds, ...entry } = node;
+        return {
+            shape: structuredClone(shapeData.shape),
+            hierarchy: { ...entry },
+            childIds: [...childIds],
+        };
+    }
+
+    private recordChanges(label: string, changes: ShapeChange[], mergeKey?: string): void {
+        if (changes.length === 0) return;
+        this.history.record(new ShapeChangeCommand(label, changes, (records) => this.applyRecords(records), mergeKey));
+    }
+
+    // Put shapes into a recorded state: null removes the shape, otherwise it's restored or re-created
+    private applyRecords(records: Array<{ id: string; record: ShapeRecord | null }>): void {
+        let selectionChanged = false;
+
+        records.forEach(({ id, record }) => {
+            if (!record) {
+                if (this.selectedShapes.delete(id)) {
+                    selectionChanged = true;
+                }
+                this.removeShape(id);
+                return;
+            }
+
+            // Records are reused by later undo/redo, so never hand out the stored object
+            const shape = structuredClone(record.shape);
+            const shapeData = this.shapes.get(id);
+            if (shapeData) {
+                shapeData.shape = shape;
+                if (this.hierarchy.getParentId(id) !== record.hierarchy.parentId) {
+                    this.hierarchy.setParent(id, record.hierarchy.parentId);
+                    this.applyLayerState(id);
+                }
+                this.updateShapeVisuals(id, this.selectedShapes.has(id));
+                this.updateSpatialIndex(id);
+                return;
+            }
+
+            this.hierarchy.add(record.hierarchy);
+            record.childIds.forEach((childId) => {
+                if (this.hierarchy.has(childId)) {
+                    this.hierarchy.setParent(childId, id);
+                    this.applyLayerState(childId);
+                }
+            });
+
+            const graphics = this.addShape(shape);
+            this.enableDragAndDrop(id, graphics);
+            this.makeShapeVisible(id);
+        });
+
+        this.refreshCulling();
+
+        const ids = records.map(({ id }) => id);
+        if (selectionChanged) {
+            this.selectShapes(Array.from(this.selectedShapes));
+        } else {
+            this.refreshResizeHandles(ids);
+        }
+        this.notifyShapesChanged(ids);
+    }
+
+    // Vertex count may have changed, so rebuild rather than move the handles
+    private refreshResizeHandles(changedIds: string[]): void {
+        if (this.selectedShapes.size !== 1) return;
+
+        const selectedId = Array.from(this.selectedShapes)[0];
+        if (changedIds.includes(selectedId)) {
+            this.createResizeHandles(selectedId);
+            this.enableResize();
+        }
+    }
+
     cullShapes(viewportBounds: { x: number; y: number; width: number; height: number }): void {
         const startTime = performance.now();
+        this.lastViewportBounds = viewportBounds;
 
         if (!this.spatialIndex) {
             console.warn('Spatial index not built, building now...');
@@ -686,7 +1765,8 @@ export class ShapeManager {
 
         // Process visible shapes
         this.shapes.forEach((shapeData, id) => {
-            const shouldBeVisible = potentiallyVisibleIds.has(id);
+            // Hidden layers stay out of the scene graph just like off-screen shapes
+            const shouldBeVisible = potentiallyVisibleIds.has(id) && !this.hiddenShapes.has(id);
 
             if (shouldBeVisible) {
                 visibleCount++;
@@ -704,6 +1784,7 @@ export class ShapeManager {
 
                 // Add to scene if not already there
                 if (!shapeData.inScene) {
+                    this.redrawIfStale(id);
                     this.shapesContainer.addChild(shapeData.graphics);
                     shapeData.inScene = true;
                     this.shapesInScene.add(id);
@@ -720,13 +1801,11 @@ export class ShapeManager {
 
         const cullTime = performance.now() - startTime;
 
-        // Also cull labels for invisible shapes (keep using visibility for labels - fewer objects)
-        this.labels.forEach((label, shapeId) => {
-            const shapeData = this.shapes.get(shapeId);
-            if (shapeData) {
-                label.visible = shapeData.inScene;
-            }
-        });
+        // Panning at a steady zoom moves labels with their shapes; only a new zoom or a change in what's
+        // on screen can change which labels fit
+        if (addedCount > 0 || removedCount > 0 || this.labelsStale || this.container.scale.x !== this.labelLayoutScale) {
+            this.layoutLabels();
+        }
 
         // Hide resize handles when the selected shape is culled
         if (this.activeShapeId) {
@@ -0,0 +1,180 @@
+import {Graphics} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {Coordinate, Shape} from '../types/shapes';
+import type {SnapKind, SnapResult, SnapSettings} from '../types/snapping';
+import {closestPointOnSegment, perpendicularFoot, segmentIntersectionPoint} from '../utils/geometry';
+import type {Rect} from '../utils/geometry';
+import {SNAP_CONFIG} from '../config/constants';
+
+type Segment = [Coordinate, Coordinate];
+
+const SNAP_PRIORITY: SnapKind[] = ['endpoint', 'intersection', 'midpoint', 'perpendicular', 'nearest', 'grid'];
+
+export interface SnapOptions {
+    exclude?: Set<string>;  // Shapes being moved, which must not snap to themselves
+    from?: Coordinate;      // Previous vertex, for perpendicular snaps
+}
+
+// Snaps a pointer position to nearby geometry found through the spatial index and shows a marker there.
+// Tolerance is in screen pixels; grid snap applies whenever nothing else is in range.
+export class SnapEngine {
+    private readonly viewport: Viewport;
+    private readonly queryShapes: (bounds: Rect) => Shape[];
+    private readonly marker: Graphics;
+    private settings: SnapSettings = SNAP_CONFIG.defaults;
+
+    constructor(viewport: Viewport, queryShapes: (bounds: Rect) => Shape[]) {
+        this.viewport = viewport;
+        this.queryShapes = queryShapes;
+        this.marker = new Graphics();
+        this.marker.eventMode = 'none';
+        viewport.addChild(this.marker);
+    }
+
+    setSettings(settings: SnapSettings): void {
+        this.settings = settings;
+        if (!settings.enabled) this.clearMarker();
+    }
+
+    // The snapped point, or the input point when nothing is in range
+    snapPoint(point: Coordinate, options: SnapOptions = {}): Coordinate {
+        const result = this.snap(point, options);
+        this.drawMarker(result);
+        return result ? result.point : point;
+    }
+
+    snap(point: Coordinate, options: SnapOptions = {}): SnapResult | null {
+        const { enabled, kinds } = this.settings;
+        if (!enabled) return null;
+
+        const tolerance = SNAP_CONFIG.tolerancePx / this.viewport.scale.x;
+        const candidates = this.collectCandidates(point, tolerance, options);
+
+        for (const kind of SNAP_PRIORITY) {
+            if (!kinds[kind]) continue;
+
+            const found = kind === 'grid' ? this.snapToGrid(point) : this.closest(point, candidates[kind], tolerance);
+            if (found) return { point: found, kind };
+        }
+        return null;
+    }
+
+    clearMarker(): void {
+        this.marker.clear();
+    }
+
+    destroy(): void {
+        this.marker.destroy();
+    }
+
+    private collectCandidates(point: Coordinate, tolerance: number, options: SnapOptions): Record<Exclude<SnapKind, 'grid'>, Coordinate[]> {
+        const candidates = { endpoint: [], intersection: [], midpoint: [], perpendicular: [], nearest: [] } as Record<Exclude<SnapKind, 'grid'>, Coordinate[]>;
+        const { kinds } = this.settings;
+        const needsSegments = kinds.intersection || kinds.midpoint || kinds.perpendicular || kinds.nearest;
+
+        const shapes = this.queryShapes({
+            minX: point.x - tolerance,
+            minY: point.y - tolerance,
+            maxX: point.x + tolerance,
+            maxY: point.y + tolerance,
+        }).filter(shape => !options.exclude?.has(shape.id));
+
+        const segments: Segment[] = [];
+        shapes.forEach((shape) => {
+            if (shape.type === 'point') {
+                candidates.endpoint.push(shape.coordinate);
+                return;
+            }
+
+            const vertices = shape.type === 'polygon' ? shape.coordinates : shape.points;
+            candidates.endpoint.push(...vertices);
+            if (!needsSegments) return;
+
+            const segmentCount = shape.type === 'polygon' ? vertices.length : vertices.length - 1;
+            for (let i = 0; i < segmentCount; i++) {
+                const a = vertices[i];
+                const b = vertices[(i + 1) % vertices.length];
+                // Only segments passing within tolerance matter; long polygons have many far-away edges
+                const nearest = closestPointOnSegment(point, a, b);
+                if (Math.hypot(nearest.x - point.x, nearest.y - point.y) <= tolerance) {
+                    segments.push([a, b]);
+                    candidates.nearest.push(nearest);
+                }
+            }
+        });
+
+        segments.forEach(([a, b]) => {
+            candidates.midpoint.push({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+            if (options.from) {
+                const foot = perpendicularFoot(options.from, a, b);
+                if (foot) candidates.perpendicular.push(foot);
+            }
+        });
+
+        if (kinds.intersection) {
+            const limited = segments.slice(0, SNAP_CONFIG.maxSegments);
+            for (let i = 0; i < limited.length; i++) {
+                for (let j = i + 1; j < limited.length; j++) {
+                    const crossing = segmentIntersectionPoint(limited[i][0], limited[i][1], limited[j][0], limited[j][1]);
+                    if (crossing) candidates.intersection.push(crossing);
+                }
+            }
+        }
+
+        return candidates;
+    }
+
+    private closest(point: Coordinate, candidates: Coordinate[], tolerance: number): Coordinate | null {
+        let best: Coordinate | null = null;
+        let bestDistance = tolerance;
+        for (const candidate of candidates) {
+            const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+            if (distance <= bestDistance) {
+                best = candidate;
+                bestDistance = distance;
+            }
+        }
+        return best ? { x: best.x, y: best.y } : null;
+    }
+
+    private snapToGrid(point: Coordinate): Coordinate | null {
+        const size = this.settings.gridSize;
+        if (!(size > 0)) return null;
+        return { x: Math.round(point.x / size) * size, y: Math.round(point.y / size) * size };
+    }
+
+    // Marker shapes follow the usual CAD conventions so the snap kind is recognisable at a glance
+    private drawMarker(result: SnapResult | null): void {
+        this.marker.clear();
+        if (!result) return;
+
+        const scale = this.viewport.scale.x;
+        const size = SNAP_CONFIG.markerSizePx / scale;
+        const { x, y } = result.point;
+
+        switch (result.kind) {
+            case 'endpoint':
+                this.marker.rect(x - size, y - size, size * 2, size * 2);
+                break;
+            case 'midpoint':
+                this.marker.poly([x, y - size, x + size, y + size, x - size, y + size], true);
+                break;
+            case 'intersection':
+                this.marker.moveTo(x - size, y - size).lineTo(x + size, y + size);
+                this.marker.moveTo(x + size, y - size).lineTo(x - size, y + size);
+                break;
+            case 'perpendicular':
+                this.marker.moveTo(x - size, y - size).lineTo(x - size, y + size).lineTo(x + size, y + size);
+                this.marker.moveTo(x - size, y).lineTo(x, y).lineTo(x, y + size);
+                break;
+            case 'nearest':
+                this.marker.poly([x - size, y - size, x + size, y - size, x - size, y + size, x + size, y + size], true);
+                break;
+            case 'grid':
+                this.marker.moveTo(x - size, y).lineTo(x + size, y);
+                this.marker.moveTo(x, y - size).lineTo(x, y + size);
+                break;
+        }
+        this.marker.stroke({ width: 2 / scale, color: SNAP_CONFIG.markerColor });
+    }
+}
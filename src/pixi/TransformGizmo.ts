@@ -0,0 +1,195 @@
+import {Container, Graphics} from 'pixi.js';
+import type {FederatedPointerEvent} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {ShapeManager} from './ShapeManager';
+import type {Coordinate, ShapeTransform} from '../types/shapes';
+import type {Rect} from '../utils/geometry';
+import {TRANSFORM_CONFIG} from '../config/constants';
+
+// Scale handles are named by the side of the bounds they sit on: -1 min, 0 centre, 1 max
+type GizmoHandle = { kind: 'rotate' } | { kind: 'scale'; x: -1 | 0 | 1; y: -1 | 0 | 1 };
+
+const SCALE_HANDLES: Array<{ x: -1 | 0 | 1; y: -1 | 0 | 1; cursor: string }> = [
+    { x: -1, y: -1, cursor: 'nwse-resize' }, { x: 0, y: -1, cursor: 'ns-resize' }, { x: 1, y: -1, cursor: 'nesw-resize' },
+    { x: 1, y: 0, cursor: 'ew-resize' }, { x: 1, y: 1, cursor: 'nwse-resize' }, { x: 0, y: 1, cursor: 'ns-resize' },
+    { x: -1, y: 1, cursor: 'nesw-resize' }, { x: -1, y: 0, cursor: 'ew-resize' },
+];
+
+// Rotate/scale handles around the selection's bounding box. The rotation handle sits above the box
+// and snaps to TRANSFORM_CONFIG.rotationSnapDegrees with Shift; corner and edge handles scale about
+// the opposite side, uniformly with Shift. The whole drag is one undo step.
+export class TransformGizmo {
+    private readonly viewport: Viewport;
+    private readonly manager: ShapeManager;
+    private readonly container: Container;
+    private readonly outline: Graphics;
+    private readonly handles: Array<{ graphics: Graphics; handle: GizmoHandle }> = [];
+    private enabled = true;
+    private bounds: Rect | null = null;
+    private drag: { handle: GizmoHandle; bounds: Rect; start: Coordinate; grab: Coordinate } | null = null;
+
+    constructor(viewport: Viewport, manager: ShapeManager) {
+        this.viewport = viewport;
+        this.manager = manager;
+        this.container = new Container();
+        this.container.visible = false;
+        this.outline = new Graphics();
+        this.outline.eventMode = 'none';
+        this.container.addChild(this.outline);
+
+        const size = TRANSFORM_CONFIG.handleSizePx;
+        const handles: Array<{ handle: GizmoHandle; cursor: string }> = [
+            ...SCALE_HANDLES.map(({ x, y, cursor }) => ({ handle: { kind: 'scale', x, y } as GizmoHandle, cursor })),
+            { handle: { kind: 'rotate' }, cursor: 'grab' },
+        ];
+        handles.forEach(({ handle, cursor }) => {
+            // Drawn in screen pixels; refresh() scales the handles to the zoom level
+            const graphics = new Graphics();
+            if (handle.kind === 'rotate') {
+                graphics.circle(0, 0, size / 2 + 1);
+            } else {
+                graphics.rect(-size / 2, -size / 2, size, size);
+            }
+            graphics.fill({ color: 0xffffff });
+            graphics.stroke({ width: 1.5, color: TRANSFORM_CONFIG.color });
+            graphics.eventMode = 'static';
+            graphics.cursor = cursor;
+            graphics.on('pointerdown', (event) => this.begin(handle, event));
+
+            this.container.addChild(graphics);
+            this.handles.push({ graphics, handle });
+        });
+
+        viewport.addChild(this.container);
+        viewport.on('zoomed', this.refresh);
+    }
+
+    // Only shown while the select tool is active
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        this.refresh();
+    }
+
+    // Re-read the selection bounds, e.g. after the selection or the shapes changed
+    refresh = (): void => {
+        const ids = this.manager.getSelectedShapes();
+        // A lone point is resized through its own radius handles
+        const lonePoint = ids.length === 1 && this.manager.getShapeById(ids[0])?.type === 'point';
+        this.bounds = this.enabled && !lonePoint ? this.manager.getShapesBounds(ids) : null;
+
+        this.container.visible = this.bounds !== null;
+        if (this.bounds) {
+            this.draw(this.bounds);
+        }
+    };
+
+    move(event: FederatedPointerEvent): void {
+        if (!this.drag) return;
+
+        const world = this.viewport.toLocal(event.global);
+        this.manager.previewTransform(this.transformFor(world, event.shiftKey));
+        this.refresh();
+    }
+
+    end(): void {
+        if (!this.drag) return;
+
+        this.drag = null;
+        this.manager.endTransform();
+        this.refresh();
+    }
+
+    isActive(): boolean {
+        return this.drag !== null;
+    }
+
+    destroy(): void {
+        this.viewport.off('zoomed', this.refresh);
+        this.container.destroy({ children: true });
+    }
+
+    private begin(handle: GizmoHandle, event: FederatedPointerEvent): void {
+        if (!this.bounds || (event.pointerType === 'mouse' && event.button !== 0)) return;
+        event.stopPropagation();
+
+        const world = this.viewport.toLocal(event.global);
+        // Scale against the real bounds, not the padded box the handle is drawn on
+        const anchor = handle.kind === 'scale' ? this.sidePoint(this.bounds, handle.x, handle.y) : world;
+        this.drag = {
+            handle,
+            bounds: this.bounds,
+            start: { x: world.x, y: world.y },
+            grab: { x: world.x - anchor.x, y: world.y - anchor.y },
+        };
+        // Alt leaves children behind, as when dragging
+        this.manager.beginTransform(handle.kind === 'rotate' ? 'Rotate' : 'Scale', event.altKey);
+    }
+
+    private transformFor(world: Coordinate, shiftKey: boolean): ShapeTransform {
+        const { handle, bounds, start, grab } = this.drag!;
+
+        if (handle.kind === 'rotate') {
+            const pivot = this.sidePoint(bounds, 0, 0);
+            let rotation = Math.atan2(world.y - pivot.y, world.x - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x);
+            if (shiftKey) {
+                const step = TRANSFORM_CONFIG.rotationSnapDegrees * Math.PI / 180;
+                rotation = Math.round(rotation / step) * step;
+            }
+            return { pivot, rotation, scaleX: 1, scaleY: 1 };
+        }
+
+        const pivot = this.sidePoint(bounds, -handle.x, -handle.y);
+        const grabbed = this.sidePoint(bounds, handle.x, handle.y);
+        const target = { x: world.x - grab.x, y: world.y - grab.y };
+        let scaleX = handle.x !== 0 ? this.scaleFactor(target.x - pivot.x, grabbed.x - pivot.x) : 1;
+        let scaleY = handle.y !== 0 ? this.scaleFactor(target.y - pivot.y, grabbed.y - pivot.y) : 1;
+
+        if (shiftKey) {
+            // Edge handles drive both axes; corners follow whichever axis moved further
+            const uniform = handle.x === 0 ? scaleY : handle.y === 0 ? scaleX : Math.abs(scaleX) > Math.abs(scaleY) ? scaleX : scaleY;
+            scaleX = uniform;
+            scaleY = uniform;
+        }
+        return { pivot, rotation: 0, scaleX, scaleY };
+    }
+
+    // A zero-size side (e.g. the height of a horizontal line) can't be scaled
+    private scaleFactor(distance: number, original: number): number {
+        if (original === 0) return 1;
+
+        const factor = distance / original;
+        return Math.abs(factor) < TRANSFORM_CONFIG.minScale ? Math.sign(factor || 1) * TRANSFORM_CONFIG.minScale : factor;
+    }
+
+    private sidePoint(bounds: Rect, x: number, y: number): Coordinate {
+        return {
+            x: x < 0 ? bounds.minX : x > 0 ? bounds.maxX : (bounds.minX + bounds.maxX) / 2,
+            y: y < 0 ? bounds.minY : y > 0 ? bounds.maxY : (bounds.minY + bounds.maxY) / 2,
+        };
+    }
+
+    private draw(bounds: Rect): void {
+        const pixel = 1 / this.viewport.scale.x;
+        const padding = TRANSFORM_CONFIG.paddingPx * pixel;
+        const box = {
+            minX: bounds.minX - padding,
+            minY: bounds.minY - padding,
+            maxX: bounds.maxX + padding,
+            maxY: bounds.maxY + padding,
+        };
+        const top = this.sidePoint(box, 0, -1);
+        const rotateY = box.minY - TRANSFORM_CONFIG.rotateHandleOffsetPx * pixel;
+
+        this.outline.clear();
+        this.outline.rect(box.minX, box.minY, box.maxX - box.minX, box.maxY - box.minY);
+        this.outline.moveTo(top.x, top.y);
+        this.outline.lineTo(top.x, rotateY);
+        this.outline.stroke({ width: pixel, color: TRANSFORM_CONFIG.color });
+
+        this.handles.forEach(({ graphics, handle }) => {
+            const position = handle.kind === 'rotate' ? { x: top.x, y: rotateY } : this.sidePoint(box, handle.x, handle.y);
+            graphics.position.set(position.x, position.y);
+            graphics.scale.set(pixel);
+        });
+    }
+}
@@ -0,0 +1,72 @@
+import {Graphics} from 'pixi.js';
+import type {Viewport} from 'pixi-viewport';
+import type {Shape} from '../types/shapes';
+import type {ValidationIssue} from '../types/validation';
+import {VALIDATION_CONFIG} from '../config/constants';
+
+// Outlines the shapes that validation flagged, and rings the issue currently being looked at.
+// Shapes are read back on every draw, so outlines follow edits until the check is re-run.
+export class ValidationOverlay {
+    private readonly viewport: Viewport;
+    private readonly getShape: (id: string) => Shape | undefined;
+    private readonly graphics: Graphics;
+    private issues: ValidationIssue[] = [];
+    private current = -1;
+
+    constructor(viewport: Viewport, getShape: (id: string) => Shape | undefined) {
+        this.viewport = viewport;
+        this.getShape = getShape;
+        this.graphics = new Graphics();
+        this.graphics.eventMode = 'none';
+        viewport.addChild(this.graphics);
+    }
+
+    // current is an index into issues, or -1 for none
+    show(issues: ValidationIssue[], current: number): void {
+        this.issues = issues;
+        this.current = current;
+        this.refresh();
+    }
+
+    clear(): void {
+        this.show([], -1);
+    }
+
+    // Redraw at a constant on-screen width after zooming or editing
+    refresh(): void {
+        this.graphics.clear();
+
+        const scale = this.viewport.scale.x;
+        const width = VALIDATION_CONFIG.lineWidthPx / scale;
+        const currentIssue = this.issues[this.current];
+
+        // The offending shape of every issue; the current one last so it draws on top
+        const flagged = new Set(this.issues.map(({ shapeIds }) => shapeIds[0]));
+        currentIssue?.shapeIds.forEach(id => flagged.delete(id));
+        flagged.forEach(id => this.outline(id, width, VALIDATION_CONFIG.color));
+
+        if (currentIssue) {
+            currentIssue.shapeIds.forEach(id => this.outline(id, width, VALIDATION_CONFIG.currentColor));
+            const { x, y } = currentIssue.location;
+            this.graphics.circle(x, y, VALIDATION_CONFIG.markerRadiusPx / scale);
+            this.graphics.stroke({ width, color: VALIDATION_CONFIG.currentColor });
+        }
+    }
+
+    destroy(): void {
+        this.graphics.destroy();
+    }
+
+    private outline(id: string, width: number, color: number): void {
+        const shape = this.getShape(id);
+        if (!shape) return;
+
+        if (shape.type === 'point') {
+            this.graphics.circle(shape.coordinate.x, shape.coordinate.y, (shape.radius || 5) + width);
+        } else {
+            const points = shape.type === 'polygon' ? shape.coordinates : shape.points;
+            this.graphics.poly(points.flatMap(({ x, y }) => [x, y]), shape.type === 'polygon');
+        }
+        this.graphics.stroke({ width, color, alpha: 0.9 });
+    }
+}
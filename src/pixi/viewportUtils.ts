@@ -0,0 +1,16 @@
+import type {Viewport} from 'pixi-viewport';
+import {VIEWPORT_CONFIG} from '../config/constants';
+
+export function zoomToBounds(
+    viewport: Viewport,
+    bounds: { minX: number; minY: number; maxX: number; maxY: number },
+): void {
+    const width = Math.max(bounds.maxX - bounds.minX, VIEWPORT_CONFIG.minFitSize) + VIEWPORT_CONFIG.padding * 2;
+    const height = Math.max(bounds.maxY - bounds.minY, VIEWPORT_CONFIG.minFitSize) + VIEWPORT_CONFIG.padding * 2;
+
+    viewport.fit(true, width, height);
+    viewport.moveCenter((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
+
+    // Programmatic moves don't emit 'moved', but culling listens for it
+    viewport.emit('moved', {viewport, type: 'ensureVisible'});
+}
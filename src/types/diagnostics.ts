@@ -0,0 +1,33 @@
+import type {Shape} from './shapes';
+import type {HierarchyEntry} from './hierarchy';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticReason =
+    | 'invalid-project'
+    | 'missing-entity'
+    | 'too-few-coordinates'
+    | 'non-finite-coordinates'
+    | 'missing-laterals'
+    | 'not-exported';
+
+export interface DiagnosticPathSegment {
+    entity: 'SubArea' | 'Block' | 'Lateral';
+    id: string;        // Original Id (Index for laterals)
+    number?: number;   // Number shown to designers (Index for laterals)
+}
+
+export interface ImportDiagnostic {
+    severity: DiagnosticSeverity;
+    reason: DiagnosticReason;
+    message: string;
+    path: DiagnosticPathSegment[];
+    // Scene-space bounds of whatever coordinates were usable, for zooming to the problem
+    location?: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+export interface ParseResult {
+    shapes: Shape[];
+    diagnostics: ImportDiagnostic[];
+    hierarchy: HierarchyEntry[];
+}
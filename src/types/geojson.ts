@@ -0,0 +1,25 @@
+// Minimal GeoJSON (RFC 7946) types for the geometries we exchange
+export type Position = number[];
+
+export type Geometry =
+    | { type: 'Point'; coordinates: Position }
+    | { type: 'MultiPoint'; coordinates: Position[] }
+    | { type: 'LineString'; coordinates: Position[] }
+    | { type: 'MultiLineString'; coordinates: Position[][] }
+    | { type: 'Polygon'; coordinates: Position[][] }
+    | { type: 'MultiPolygon'; coordinates: Position[][][] }
+    | { type: 'GeometryCollection'; geometries: Geometry[] };
+
+export type GeoJsonProperties = Record<string, unknown> | null;
+
+export interface Feature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: Geometry | null;
+    properties: GeoJsonProperties;
+}
+
+export interface FeatureCollection {
+    type: 'FeatureCollection';
+    features: Feature[];
+}
@@ -0,0 +1,15 @@
+// 'shape' covers anything that isn't part of the irrigation project (drawn or imported)
+export type EntityType = 'subarea' | 'block' | 'lateral' | 'shape';
+
+// What the parser knows about a shape's place in the project, keyed by shape id
+export interface HierarchyEntry {
+    id: string;
+    type: EntityType;
+    parentId: string | null;
+    sourceId?: string;   // Original SubArea/Block Id, or Lateral Index
+    number?: number;     // SubArea/Block Number, or Lateral Index
+}
+
+export interface HierarchyNode extends HierarchyEntry {
+    childIds: string[];
+}
@@ -16,6 +16,7 @@ export interface PolygonShape {
     coordinates: Coordinate[];
     style: ShapeStyle;
     label?: string;
+    layer?: string;  // Imported layer name (GeoJSON file, DXF layer)
 }
 
 export interface LineShape {
@@ -24,6 +25,7 @@ export interface LineShape {
     points: Coordinate[];
     style: ShapeStyle;
     label?: string;
+    layer?: string;
 }
 
 export interface PointShape {
@@ -33,10 +35,28 @@ export interface PointShape {
     style: ShapeStyle;
     radius?: number;
     label?: string;
+    layer?: string;
 }
 
 export type Shape = PolygonShape | LineShape | PointShape;
 
+// Partial edit applied through ShapeManager.updateShape; geometry fields only apply to the matching type
+export interface ShapeUpdate {
+    style?: Partial<ShapeStyle>;
+    coordinates?: Coordinate[];
+    points?: Coordinate[];
+    coordinate?: Coordinate;
+    radius?: number;
+}
+
+// Scale then rotate about pivot, in scene coordinates (rotation in radians)
+export interface ShapeTransform {
+    pivot: Coordinate;
+    rotation: number;
+    scaleX: number;
+    scaleY: number;
+}
+
 export interface IrrigationProject {
     Id: string;
     Name: string;
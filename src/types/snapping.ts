@@ -0,0 +1,15 @@
+import type {Coordinate} from './shapes';
+
+// In priority order: when several snaps are within tolerance the earlier kind wins
+export type SnapKind = 'endpoint' | 'intersection' | 'midpoint' | 'perpendicular' | 'nearest' | 'grid';
+
+export interface SnapSettings {
+    enabled: boolean;
+    kinds: Record<SnapKind, boolean>;
+    gridSize: number;  // World units
+}
+
+export interface SnapResult {
+    point: Coordinate;
+    kind: SnapKind;
+}
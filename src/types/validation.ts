@@ -0,0 +1,16 @@
+import type {Coordinate} from './shapes';
+
+export type ValidationKind =
+    | 'self-intersection'
+    | 'block-overlap'
+    | 'outside-subarea'
+    | 'lateral-outside-block';
+
+export interface ValidationIssue {
+    kind: ValidationKind;
+    message: string;
+    shapeIds: string[];     // Offending shape first, then the one it conflicts with
+    location: Coordinate;   // Scene coordinates of (a representative point of) the problem
+    // Scene-space bounds of the problem area, for zooming to it
+    bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
@@ -0,0 +1,15 @@
+// Trigger a browser download for generated file content
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string = 'text/plain'): void {
+    const blob = content instanceof Blob ? content : new Blob([content], {type: mimeType});
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Give the browser a tick to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
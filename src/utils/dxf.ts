@@ -0,0 +1,380 @@
+import type {Coordinate, Shape, ShapeStyle} from '../types/shapes';
+import type {EntityType} from '../types/hierarchy';
+import {coordsArrayToCoordinate} from './jsonParser';
+import {DEFAULT_SHAPE_STYLES} from '../config/constants';
+
+interface DxfEntity {
+    type: string;
+    codes: Array<[number, string]>;
+}
+
+interface DxfLayer {
+    color?: string;
+}
+
+// AutoCAD Color Index: 1-9 are fixed, 10-249 are 24 hues x 5 brightness levels x full/half saturation, 250-255 are greys
+const ACI_BASE: Record<number, string> = {
+    1: '#FF0000',
+    2: '#FFFF00',
+    3: '#00FF00',
+    4: '#00FFFF',
+    5: '#0000FF',
+    6: '#FF00FF',
+    7: '#000000', // "White" in CAD, drawn black on a light background
+    8: '#808080',
+    9: '#C0C0C0',
+};
+const ACI_GREYS = ['#333333', '#505050', '#696969', '#828282', '#BEBEBE', '#FFFFFF'];
+const ACI_BRIGHTNESS = [1, 0.65, 0.5, 0.3, 0.15];
+
+function toHex(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function hsvToHex(hue: number, saturation: number, value: number): string {
+    const f = (n: number) => {
+        const k = (n + hue / 60) % 6;
+        return value * (1 - saturation * Math.max(0, Math.min(k, 4 - k, 1)));
+    };
+    return toHex(f(5) * 255, f(3) * 255, f(1) * 255);
+}
+
+export function aciToHex(index: number): string | undefined {
+    if (ACI_BASE[index]) return ACI_BASE[index];
+    if (index >= 10 && index <= 249) {
+        const hue = Math.floor((index - 10) / 10) * 15;
+        const step = (index - 10) % 10;
+        return hsvToHex(hue, step % 2 === 0 ? 1 : 0.5, ACI_BRIGHTNESS[Math.floor(step / 2)]);
+    }
+    if (index >= 250 && index <= 255) return ACI_GREYS[index - 250];
+    return undefined;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+const aciCache = new Map<string, number>();
+
+// Nearest palette entry, for writers that only understand ACI
+export function hexToAci(hex: string): number {
+    const cached = aciCache.get(hex);
+    if (cached !== undefined) return cached;
+
+    const [r, g, b] = hexToRgb(hex);
+    let best = 7;
+    let bestDistance = Infinity;
+
+    for (let index = 1; index <= 255; index++) {
+        const [pr, pg, pb] = hexToRgb(aciToHex(index)!);
+        const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = index;
+        }
+    }
+
+    aciCache.set(hex, best);
+    return best;
+}
+
+function trueColorToHex(value: number): string {
+    return toHex((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function readPairs(text: string): Array<[number, string]> {
+    const lines = text.split(/\r?\n/);
+    const pairs: Array<[number, string]> = [];
+
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (Number.isNaN(code)) {
+            throw new Error(`Invalid group code on line ${i + 1}`);
+        }
+        pairs.push([code, lines[i + 1].trim()]);
+    }
+
+    return pairs;
+}
+
+// Split the pair stream into sections, each a list of entities starting at a group code 0
+function readSections(pairs: Array<[number, string]>): Map<string, DxfEntity[]> {
+    const sections = new Map<string, DxfEntity[]>();
+    let current: DxfEntity[] | null = null;
+    let entity: DxfEntity | null = null;
+
+    for (let i = 0; i < pairs.length; i++) {
+        const [code, value] = pairs[i];
+
+        if (code === 0 && value === 'SECTION') {
+            const name = pairs[i + 1]?.[0] === 2 ? pairs[i + 1][1] : '';
+            current = [];
+            sections.set(name, current);
+            entity = null;
+            i++;
+        } else if (code === 0 && value === 'ENDSEC') {
+            current = null;
+            entity = null;
+        } else if (current && code === 0) {
+            entity = {type: value, codes: []};
+            current.push(entity);
+        } else if (entity) {
+            entity.codes.push([code, value]);
+        }
+    }
+
+    return sections;
+}
+
+function getValue(entity: DxfEntity, code: number): string | undefined {
+    return entity.codes.find(([c]) => c === code)?.[1];
+}
+
+function getNumber(entity: DxfEntity, code: number): number | undefined {
+    const value = getValue(entity, code);
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function readColor(entity: DxfEntity): string | undefined {
+    const trueColor = getNumber(entity, 420);
+    if (trueColor !== undefined) return trueColorToHex(trueColor);
+
+    const aci = getNumber(entity, 62);
+    // 0 is BYBLOCK, 256 is BYLAYER, negative means the layer is off
+    return aci !== undefined ? aciToHex(Math.abs(aci)) : undefined;
+}
+
+function readLayers(tables: DxfEntity[] = []): Map<string, DxfLayer> {
+    const layers = new Map<string, DxfLayer>();
+    tables
+        .filter(entity => entity.type === 'LAYER')
+        .forEach((entity) => {
+            const name = getValue(entity, 2);
+            if (name !== undefined) {
+                layers.set(name, {color: readColor(entity)});
+            }
+        });
+    return layers;
+}
+
+function toCoordinate(x: number | undefined, y: number | undefined): Coordinate | null {
+    return x === undefined || y === undefined ? null : coordsArrayToCoordinate([x, y]);
+}
+
+// Closed polylines sometimes repeat the first vertex
+function dropClosingVertex(coords: Coordinate[]): Coordinate[] {
+    const first = coords[0];
+    const last = coords[coords.length - 1];
+    return coords.length > 1 && first.x === last.x && first.y === last.y ? coords.slice(0, -1) : coords;
+}
+
+function lwPolylineVertices(entity: DxfEntity): Coordinate[] {
+    const vertices: Coordinate[] = [];
+    let x: number | undefined;
+
+    entity.codes.forEach(([code, value]) => {
+        if (code === 10) {
+            x = Number(value);
+        } else if (code === 20 && x !== undefined) {
+            const coord = toCoordinate(x, Number(value));
+            if (coord) vertices.push(coord);
+            x = undefined;
+        }
+    });
+
+    return vertices;
+}
+
+// Read LWPOLYLINE, POLYLINE, LINE, POINT and CIRCLE entities from the ENTITIES section.
+// Bulges on polyline segments are ignored, so arcs come in as straight segments.
+export function parseDxf(text: string, fileName: string): Shape[] {
+    const sections = readSections(readPairs(text));
+    const layers = readLayers(sections.get('TABLES'));
+    const entities = sections.get('ENTITIES');
+    if (!entities) {
+        throw new Error('DXF has no ENTITIES section');
+    }
+
+    const shapes: Shape[] = [];
+    const idPrefix = `dxf-${Date.now()}`;
+    let counter = 0;
+
+    // Every shape gets a layer, '0' when the entity names none: that's what marks DXF geometry as
+    // reference content, so the project export never turns it into Blocks or Laterals
+    const styleFor = (entity: DxfEntity, type: Shape['type']): { style: ShapeStyle; layer: string } => {
+        const layer = getValue(entity, 8) || '0';
+        const color = readColor(entity) ?? layers.get(layer)?.color ?? '#000000';
+        const width = getNumber(entity, 43);
+        return {
+            layer,
+            style: {
+                borderColor: color,
+                borderWidth: width && width > 0 ? width : DEFAULT_SHAPE_STYLES[type].borderWidth,
+            },
+        };
+    };
+
+    const addPolyline = (entity: DxfEntity, vertices: Coordinate[], closed: boolean) => {
+        if (closed && vertices.length >= 3) {
+            shapes.push({
+                id: `${idPrefix}-${counter++}`,
+                type: 'polygon',
+                coordinates: dropClosingVertex(vertices),
+                ...styleFor(entity, 'polygon'),
+            });
+        } else if (vertices.length >= 2) {
+            shapes.push({
+                id: `${idPrefix}-${counter++}`,
+                type: 'line',
+                points: vertices,
+                ...styleFor(entity, 'line'),
+            });
+        }
+    };
+
+    for (let i = 0; i < entities.length; i++) {
+        const entity = entities[i];
+        const flags = getNumber(entity, 70) ?? 0;
+
+        if (entity.type === 'LWPOLYLINE') {
+            addPolyline(entity, lwPolylineVertices(entity), (flags & 1) === 1);
+        } else if (entity.type === 'POLYLINE') {
+            const vertices: Coordinate[] = [];
+            while (entities[i + 1]?.type === 'VERTEX') {
+                const vertex = entities[++i];
+                const coord = toCoordinate(getNumber(vertex, 10), getNumber(vertex, 20));
+                if (coord) vertices.push(coord);
+            }
+            if (entities[i + 1]?.type === 'SEQEND') i++;
+
+            // Skip polyface and polygon meshes, they aren't outlines
+            if ((flags & (16 | 64)) === 0) {
+                addPolyline(entity, vertices, (flags & 1) === 1);
+            }
+        } else if (entity.type === 'LINE') {
+            const start = toCoordinate(getNumber(entity, 10), getNumber(entity, 20));
+            const end = toCoordinate(getNumber(entity, 11), getNumber(entity, 21));
+            if (start && end) addPolyline(entity, [start, end], false);
+        } else if (entity.type === 'POINT' || entity.type === 'CIRCLE') {
+            const coordinate = toCoordinate(getNumber(entity, 10), getNumber(entity, 20));
+            if (!coordinate) continue;
+            shapes.push({
+                id: `${idPrefix}-${counter++}`,
+                type: 'point',
+                coordinate,
+                radius: entity.type === 'CIRCLE' ? getNumber(entity, 40) : DEFAULT_SHAPE_STYLES.point.radius,
+                ...styleFor(entity, 'point'),
+            });
+        }
+    }
+
+    console.log(`Read ${shapes.length} shapes from ${fileName}`);
+    return shapes;
+}
+
+const ENTITY_LAYERS: Partial<Record<EntityType, string>> = {
+    subarea: 'SUBAREAS',
+    block: 'BLOCKS',
+    lateral: 'LATERALS',
+};
+
+function layerNameFor(shape: Shape, entityType?: EntityType): string {
+    if (shape.layer) {
+        // Layer names can't contain <>/\":;?*|=`
+        return shape.layer.replace(/[<>/\\":;?*|=`]/g, '_');
+    }
+    return (entityType && ENTITY_LAYERS[entityType]) || '0';
+}
+
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+// Write shapes as an R12 (AC1009) ASCII DXF, which every CAD tool can open.
+// Polygons and lines become POLYLINEs, points become CIRCLEs.
+export function shapesToDxf(shapes: Shape[], entityTypeOf: (id: string) => EntityType | undefined = () => undefined): string {
+    const out: string[] = [];
+    const write = (code: number, value: string | number) => {
+        out.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+    };
+    const writeInt = (code: number, value: number) => out.push(String(code), String(value));
+
+    // Each layer takes the colour of its first shape; entities only override when they differ
+    const layerColors = new Map<string, number>();
+    shapes.forEach((shape) => {
+        const layer = layerNameFor(shape, entityTypeOf(shape.id));
+        if (!layerColors.has(layer)) {
+            layerColors.set(layer, hexToAci(shape.style.borderColor || '#000000'));
+        }
+    });
+
+    write(0, 'SECTION');
+    write(2, 'HEADER');
+    write(9, '$ACADVER');
+    write(1, 'AC1009');
+    write(0, 'ENDSEC');
+
+    write(0, 'SECTION');
+    write(2, 'TABLES');
+    write(0, 'TABLE');
+    write(2, 'LAYER');
+    writeInt(70, layerColors.size);
+    layerColors.forEach((color, layer) => {
+        write(0, 'LAYER');
+        write(2, layer);
+        writeInt(70, 0);
+        writeInt(62, color);
+        write(6, 'CONTINUOUS');
+    });
+    write(0, 'ENDTAB');
+    write(0, 'ENDSEC');
+
+    write(0, 'SECTION');
+    write(2, 'ENTITIES');
+
+    shapes.forEach((shape) => {
+        const layer = layerNameFor(shape, entityTypeOf(shape.id));
+        const color = hexToAci(shape.style.borderColor || '#000000');
+        const writeCommon = (type: string) => {
+            write(0, type);
+            write(8, layer);
+            if (color !== layerColors.get(layer)) {
+                writeInt(62, color);
+            }
+        };
+
+        if (shape.type === 'point') {
+            writeCommon('CIRCLE');
+            write(10, shape.coordinate.x);
+            write(20, -shape.coordinate.y); // Un-negate Y back to world coordinates
+            write(30, 0);
+            write(40, shape.radius || 5);
+            return;
+        }
+
+        const vertices = shape.type === 'polygon' ? shape.coordinates : shape.points;
+        writeCommon('POLYLINE');
+        writeInt(66, 1);
+        write(10, 0);
+        write(20, 0);
+        write(30, 0);
+        writeInt(70, shape.type === 'polygon' ? 1 : 0);
+        vertices.forEach((vertex) => {
+            write(0, 'VERTEX');
+            write(8, layer);
+            write(10, vertex.x);
+            write(20, -vertex.y);
+            write(30, 0);
+        });
+        write(0, 'SEQEND');
+        write(8, layer);
+    });
+
+    write(0, 'ENDSEC');
+    write(0, 'EOF');
+
+    return out.join('\n') + '\n';
+}
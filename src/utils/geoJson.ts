@@ -0,0 +1,150 @@
+import type {Coordinate, Shape, ShapeStyle} from '../types/shapes';
+import type {Feature, FeatureCollection, GeoJsonProperties, Geometry, Position} from '../types/geojson';
+import {coordsArrayToCoordinate} from './jsonParser';
+import {DEFAULT_SHAPE_STYLES} from '../config/constants';
+
+function toCoordinates(positions: Position[]): Coordinate[] {
+    return positions
+        .map(coordsArrayToCoordinate)
+        .filter((coord): coord is Coordinate => coord !== null);
+}
+
+function toPosition(coord: Coordinate): Position {
+    return [coord.x, -coord.y]; // Un-negate Y back to world coordinates
+}
+
+// GeoJSON rings repeat the first position at the end; shapes don't
+function openRing(coords: Coordinate[]): Coordinate[] {
+    if (coords.length > 1) {
+        const first = coords[0];
+        const last = coords[coords.length - 1];
+        if (first.x === last.x && first.y === last.y) {
+            return coords.slice(0, -1);
+        }
+    }
+    return coords;
+}
+
+function closeRing(positions: Position[]): Position[] {
+    if (positions.length === 0) return positions;
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+    return first[0] === last[0] && first[1] === last[1] ? positions : [...positions, first];
+}
+
+function readString(properties: GeoJsonProperties, ...keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = properties?.[key];
+        if (typeof value === 'string' && value !== '') return value;
+    }
+    return undefined;
+}
+
+function readNumber(properties: GeoJsonProperties, ...keys: string[]): number | undefined {
+    for (const key of keys) {
+        const value = Number(properties?.[key]);
+        if (properties?.[key] !== undefined && properties?.[key] !== null && Number.isFinite(value)) return value;
+    }
+    return undefined;
+}
+
+// Our own keys first, simplestyle-spec keys (used by most GIS tools) as a fallback
+function readStyle(properties: GeoJsonProperties, type: Shape['type']): ShapeStyle {
+    const defaults: ShapeStyle = DEFAULT_SHAPE_STYLES[type];
+    return {
+        fillColor: type === 'line' ? undefined : readString(properties, 'fillColor', 'fill') ?? defaults.fillColor,
+        borderColor: readString(properties, 'borderColor', 'stroke', 'marker-color') ?? defaults.borderColor,
+        borderWidth: readNumber(properties, 'borderWidth', 'stroke-width') ?? defaults.borderWidth,
+        opacity: readNumber(properties, 'opacity', 'fill-opacity'),
+    };
+}
+
+// Read a GeoJSON FeatureCollection (or a single Feature/Geometry) into shapes.
+// Polygons keep their outer ring only; Multi* geometries become one shape per part.
+export function parseGeoJson(json: unknown, layer: string): Shape[] {
+    const shapes: Shape[] = [];
+    const idPrefix = `geojson-${Date.now()}`;
+
+    const input = json as FeatureCollection | Feature | Geometry;
+    let features: Feature[];
+    if (input?.type === 'FeatureCollection') {
+        features = Array.isArray(input.features) ? input.features : [];
+    } else if (input?.type === 'Feature') {
+        features = [input];
+    } else if (input && typeof input === 'object' && 'type' in input) {
+        features = [{type: 'Feature', geometry: input, properties: null}];
+    } else {
+        throw new Error('File is not GeoJSON');
+    }
+
+    features.forEach((feature, featureIndex) => {
+        if (!feature?.geometry) return;
+
+        const properties = feature.properties ?? null;
+        const label = readString(properties, 'label', 'name', 'Name');
+        let part = 0;
+
+        const nextId = () => `${idPrefix}-${featureIndex}-${part++}`;
+
+        const addGeometry = (geometry: Geometry) => {
+            if (geometry.type === 'Polygon') {
+                const coordinates = openRing(toCoordinates(geometry.coordinates?.[0] ?? []));
+                if (coordinates.length < 3) return;
+                shapes.push({id: nextId(), type: 'polygon', coordinates, style: readStyle(properties, 'polygon'), label, layer});
+            } else if (geometry.type === 'LineString') {
+                const points = toCoordinates(geometry.coordinates ?? []);
+                if (points.length < 2) return;
+                shapes.push({id: nextId(), type: 'line', points, style: readStyle(properties, 'line'), label, layer});
+            } else if (geometry.type === 'Point') {
+                const coordinate = coordsArrayToCoordinate(geometry.coordinates);
+                if (!coordinate) return;
+                shapes.push({
+                    id: nextId(),
+                    type: 'point',
+                    coordinate,
+                    radius: readNumber(properties, 'radius') ?? DEFAULT_SHAPE_STYLES.point.radius,
+                    style: readStyle(properties, 'point'),
+                    label,
+                    layer,
+                });
+            } else if (geometry.type === 'MultiPolygon') {
+                geometry.coordinates?.forEach(coordinates => addGeometry({type: 'Polygon', coordinates}));
+            } else if (geometry.type === 'MultiLineString') {
+                geometry.coordinates?.forEach(coordinates => addGeometry({type: 'LineString', coordinates}));
+            } else if (geometry.type === 'MultiPoint') {
+                geometry.coordinates?.forEach(coordinates => addGeometry({type: 'Point', coordinates}));
+            } else if (geometry.type === 'GeometryCollection') {
+                geometry.geometries?.forEach(addGeometry);
+            }
+        };
+
+        addGeometry(feature.geometry);
+    });
+
+    return shapes;
+}
+
+export function shapeToFeature(shape: Shape): Feature {
+    let geometry: Geometry;
+    if (shape.type === 'polygon') {
+        geometry = {type: 'Polygon', coordinates: [closeRing(shape.coordinates.map(toPosition))]};
+    } else if (shape.type === 'line') {
+        geometry = {type: 'LineString', coordinates: shape.points.map(toPosition)};
+    } else {
+        geometry = {type: 'Point', coordinates: toPosition(shape.coordinate)};
+    }
+
+    const properties: Record<string, unknown> = {...shape.style};
+    if (shape.label !== undefined) properties.label = shape.label;
+    if (shape.layer !== undefined) properties.layer = shape.layer;
+    if (shape.type === 'point' && shape.radius !== undefined) properties.radius = shape.radius;
+
+    return {type: 'Feature', id: shape.id, geometry, properties};
+}
+
+export function shapesToGeoJson(shapes: Shape[]): FeatureCollection {
+    return {
+        type: 'FeatureCollection',
+        features: shapes.map(shapeToFeature),
+    };
+}
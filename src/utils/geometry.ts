@@ -0,0 +1,264 @@
+import type {Coordinate, ShapeTransform} from '../types/shapes';
+
+// Ray casting test, works for concave polygons. The ring may or may not repeat its first vertex.
+export function pointInPolygon(point: Coordinate, polygon: Coordinate[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+
+        if ((a.y > point.y) !== (b.y > point.y) &&
+            point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
+
+export interface Rect {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export function pointInRect(point: Coordinate, rect: Rect): boolean {
+    return point.x >= rect.minX && point.x <= rect.maxX && point.y >= rect.minY && point.y <= rect.maxY;
+}
+
+// Liang–Barsky clipping: does any part of segment ab lie inside the rect?
+export function segmentIntersectsRect(a: Coordinate, b: Coordinate, rect: Rect): boolean {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    let t0 = 0;
+    let t1 = 1;
+
+    const clip = (p: number, q: number): boolean => {
+        if (p === 0) return q >= 0;
+        const t = q / p;
+        if (p < 0) {
+            if (t > t1) return false;
+            if (t > t0) t0 = t;
+        } else {
+            if (t < t0) return false;
+            if (t < t1) t1 = t;
+        }
+        return true;
+    };
+
+    return clip(-dx, a.x - rect.minX) && clip(dx, rect.maxX - a.x) &&
+        clip(-dy, a.y - rect.minY) && clip(dy, rect.maxY - a.y);
+}
+
+export function polylineIntersectsRect(points: Coordinate[], rect: Rect, closed: boolean = false): boolean {
+    if (points.length === 1) return pointInRect(points[0], rect);
+
+    const segmentCount = closed ? points.length : points.length - 1;
+    for (let i = 0; i < segmentCount; i++) {
+        if (segmentIntersectsRect(points[i], points[(i + 1) % points.length], rect)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Outline crossing the rect, or the rect lying entirely inside the polygon
+export function polygonIntersectsRect(polygon: Coordinate[], rect: Rect): boolean {
+    return polylineIntersectsRect(polygon, rect, true) ||
+        pointInPolygon({x: (rect.minX + rect.maxX) / 2, y: (rect.minY + rect.maxY) / 2}, polygon);
+}
+
+export function circleIntersectsRect(center: Coordinate, radius: number, rect: Rect): boolean {
+    const nearestX = Math.max(rect.minX, Math.min(center.x, rect.maxX));
+    const nearestY = Math.max(rect.minY, Math.min(center.y, rect.maxY));
+    const dx = center.x - nearestX;
+    const dy = center.y - nearestY;
+    return dx * dx + dy * dy <= radius * radius;
+}
+
+function orientation(a: Coordinate, b: Coordinate, c: Coordinate): number {
+    const value = (b.y - a.y) * (c.x - b.x) - (b.x - a.x) * (c.y - b.y);
+    return value === 0 ? 0 : value > 0 ? 1 : -1;
+}
+
+function onSegment(a: Coordinate, p: Coordinate, b: Coordinate): boolean {
+    return p.x <= Math.max(a.x, b.x) && p.x >= Math.min(a.x, b.x) && p.y <= Math.max(a.y, b.y) && p.y >= Math.min(a.y, b.y);
+}
+
+export function segmentsIntersect(a: Coordinate, b: Coordinate, c: Coordinate, d: Coordinate): boolean {
+    const o1 = orientation(a, b, c);
+    const o2 = orientation(a, b, d);
+    const o3 = orientation(c, d, a);
+    const o4 = orientation(c, d, b);
+
+    if (o1 !== o2 && o3 !== o4) return true;
+
+    // Collinear overlaps
+    return (o1 === 0 && onSegment(a, c, b)) || (o2 === 0 && onSegment(a, d, b)) ||
+        (o3 === 0 && onSegment(c, a, d)) || (o4 === 0 && onSegment(c, b, d));
+}
+
+export function polylinesIntersect(first: Coordinate[], second: Coordinate[], firstClosed: boolean, secondClosed: boolean): boolean {
+    const firstCount = firstClosed ? first.length : first.length - 1;
+    const secondCount = secondClosed ? second.length : second.length - 1;
+
+    for (let i = 0; i < firstCount; i++) {
+        const a = first[i];
+        const b = first[(i + 1) % first.length];
+        for (let j = 0; j < secondCount; j++) {
+            if (segmentsIntersect(a, b, second[j], second[(j + 1) % second.length])) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+export function closestPointOnSegment(point: Coordinate, a: Coordinate, b: Coordinate): Coordinate {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return {x: a.x, y: a.y};
+
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return {x: a.x + t * dx, y: a.y + t * dy};
+}
+
+// Foot of the perpendicular from point onto segment ab, or null when it falls outside the segment
+export function perpendicularFoot(point: Coordinate, a: Coordinate, b: Coordinate): Coordinate | null {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return null;
+
+    const t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared;
+    return t < 0 || t > 1 ? null : {x: a.x + t * dx, y: a.y + t * dy};
+}
+
+// Crossing point of segments ab and cd; null for parallel or non-crossing segments
+export function segmentIntersectionPoint(a: Coordinate, b: Coordinate, c: Coordinate, d: Coordinate): Coordinate | null {
+    const denominator = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+    if (denominator === 0) return null;
+
+    const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denominator;
+    const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denominator;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+    return {x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y)};
+}
+
+export function transformCoordinate(point: Coordinate, transform: ShapeTransform): Coordinate {
+    const { pivot, rotation, scaleX, scaleY } = transform;
+    const x = (point.x - pivot.x) * scaleX;
+    const y = (point.y - pivot.y) * scaleY;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    return {
+        x: pivot.x + x * cos - y * sin,
+        y: pivot.y + x * sin + y * cos,
+    };
+}
+
+// Sum of segment lengths; closed adds the segment back to the first point
+export function polylineLength(points: Coordinate[], closed: boolean = false): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+        length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    if (closed && points.length > 2) {
+        const first = points[0];
+        const last = points[points.length - 1];
+        length += Math.hypot(first.x - last.x, first.y - last.y);
+    }
+    return length;
+}
+
+// Shoelace formula, unsigned so winding and the flipped Y axis don't matter
+export function polygonArea(ring: Coordinate[]): number {
+    let doubled = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        doubled += (ring[j].x + ring[i].x) * (ring[j].y - ring[i].y);
+    }
+    return Math.abs(doubled) / 2;
+}
+
+// Angle at vertex between the segments to previous and next, in degrees (0-180)
+export function angleAtVertex(previous: Coordinate, vertex: Coordinate, next: Coordinate): number {
+    const a = Math.atan2(previous.y - vertex.y, previous.x - vertex.x);
+    const b = Math.atan2(next.y - vertex.y, next.x - vertex.x);
+    const degrees = Math.abs(a - b) * 180 / Math.PI;
+    return degrees > 180 ? 360 - degrees : degrees;
+}
+
+// Distance from point to the ring's outline, negative outside
+function signedDistanceToRing(point: Coordinate, ring: Coordinate[]): number {
+    let distance = Infinity;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const closest = closestPointOnSegment(point, ring[j], ring[i]);
+        distance = Math.min(distance, Math.hypot(point.x - closest.x, point.y - closest.y));
+    }
+    return pointInPolygon(point, ring) ? distance : -distance;
+}
+
+// Interior point farthest from the outline (polylabel): a quadtree search over square cells, dropping
+// cells that can't beat the best point found by more than precision. radius is that point's distance
+// to the outline. Unlike the vertex average, the point is always inside, even for concave rings.
+export function poleOfInaccessibility(ring: Coordinate[], precision: number): { point: Coordinate; radius: number } {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    ring.forEach(({ x, y }) => {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+    });
+
+    const cellSize = Math.min(maxX - minX, maxY - minY);
+    const centre = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+    if (cellSize === 0) return { point: centre, radius: 0 };
+
+    type Cell = { x: number; y: number; half: number; distance: number; potential: number };
+    const makeCell = (x: number, y: number, half: number): Cell => {
+        const distance = signedDistanceToRing({ x, y }, ring);
+        // Best distance any point in the cell could reach
+        return { x, y, half, distance, potential: distance + half * Math.SQRT2 };
+    };
+
+    // Kept sorted by potential, best last
+    const queue: Cell[] = [];
+    const push = (cell: Cell) => {
+        let low = 0, high = queue.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (queue[mid].potential < cell.potential) low = mid + 1; else high = mid;
+        }
+        queue.splice(low, 0, cell);
+    };
+
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minY; y < maxY; y += cellSize) {
+            push(makeCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+        }
+    }
+
+    let best = makeCell(centre.x, centre.y, 0);
+    queue.forEach((cell) => {
+        if (cell.distance > best.distance) best = cell;
+    });
+
+    while (queue.length > 0) {
+        const cell = queue.pop()!;
+        if (cell.distance > best.distance) best = cell;
+        if (cell.potential - best.distance <= precision) continue;
+
+        const half = cell.half / 2;
+        push(makeCell(cell.x - half, cell.y - half, half));
+        push(makeCell(cell.x + half, cell.y - half, half));
+        push(makeCell(cell.x - half, cell.y + half, half));
+        push(makeCell(cell.x + half, cell.y + half, half));
+    }
+
+    return { point: { x: best.x, y: best.y }, radius: Math.max(0, best.distance) };
+}
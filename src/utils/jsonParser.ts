@@ -1,33 +1,168 @@
-import type {Coordinate, IrrigationProject, Shape} from '../types/shapes';
+import type {Coordinate, ExternalSnapshot, IrrigationProject, Shape, ShapeStyle} from '../types/shapes';
+import type {DiagnosticPathSegment, ImportDiagnostic, ParseResult} from '../types/diagnostics';
+import type {HierarchyEntry} from '../types/hierarchy';
 
-function coordsArrayToCoordinate(coords: number[]): Coordinate | null {
+export function coordsArrayToCoordinate(coords: number[]): Coordinate | null {
     if (!coords || coords.length < 2 || !Number.isFinite(coords[0]) || !Number.isFinite(coords[1])) {
         return null;
     }
     return {x: coords[0], y: -coords[1]}; // Negate Y for screen coordinates
 }
 
-export function parseIrrigationProject(json: IrrigationProject): Shape[] {
+// Extract block styles from ExternalSnapshot if available
+export function parseBlockStyle(externalSnapshot?: ExternalSnapshot): ShapeStyle {
+    let fillColor = '#FFFFFF';
+    let borderColor = '#0038FF';
+    let borderWidth = 1;
+    let opacity = 0.2;
+
+    if (externalSnapshot) {
+        if (externalSnapshot.BlockDesignFillColor?.Value) {
+            fillColor = String(externalSnapshot.BlockDesignFillColor.Value);
+        }
+        if (externalSnapshot.BlockDesignBorderColor?.Value) {
+            borderColor = String(externalSnapshot.BlockDesignBorderColor.Value);
+        }
+        if (externalSnapshot.BlockDesignBorderWidth?.Value !== undefined) {
+            borderWidth = Number(externalSnapshot.BlockDesignBorderWidth.Value);
+        }
+        if (externalSnapshot.BlockDesignOpacity?.Value !== undefined) {
+            opacity = Number(externalSnapshot.BlockDesignOpacity.Value) / 100; // Convert percentage to decimal
+        }
+    }
+
+    return {fillColor, borderColor, borderWidth, opacity};
+}
+
+// Extract lateral styles from Block's ExternalSnapshot
+export function parseLateralStyle(externalSnapshot?: ExternalSnapshot): ShapeStyle {
+    let lateralColor = '#0038FF';
+    let lateralWidth = 1;
+
+    if (externalSnapshot?.LateralDesignLineStyle) {
+        const lateralStyle = externalSnapshot.LateralDesignLineStyle;
+        // Use PreHydraulicCalculation style if available, otherwise PostHydraulicCalculation
+        if (lateralStyle.PreHydraulicCalculationBorderColor?.Value) {
+            lateralColor = String(lateralStyle.PreHydraulicCalculationBorderColor.Value);
+        } else if (lateralStyle.PostHydraulicCalculationBorderColor?.Value) {
+            lateralColor = String(lateralStyle.PostHydraulicCalculationBorderColor.Value);
+        }
+
+        if (lateralStyle.PreHydraulicCalculationBorderWidth?.Value !== undefined) {
+            lateralWidth = Number(lateralStyle.PreHydraulicCalculationBorderWidth.Value);
+        } else if (lateralStyle.PostHydraulicCalculationBorderWidth?.Value !== undefined) {
+            lateralWidth = Number(lateralStyle.PostHydraulicCalculationBorderWidth.Value);
+        }
+    }
+
+    return {borderColor: lateralColor, borderWidth: lateralWidth};
+}
+
+function coordinatesBounds(coords: Coordinate[]): ImportDiagnostic['location'] {
+    if (coords.length === 0) {
+        return undefined;
+    }
+
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    coords.forEach((coord) => {
+        minX = Math.min(minX, coord.x);
+        maxX = Math.max(maxX, coord.x);
+        minY = Math.min(minY, coord.y);
+        maxY = Math.max(maxY, coord.y);
+    });
+
+    return {minX, minY, maxX, maxY};
+}
+
+// Convert raw coordinates, reporting anything dropped. Returns null when the entity has to be skipped.
+function collectCoordinates(
+    raw: number[][] | undefined,
+    minCount: number,
+    path: DiagnosticPathSegment[],
+    diagnostics: ImportDiagnostic[],
+    skippedNote: string = '',
+): Coordinate[] | null {
+    const rawCount = Array.isArray(raw) ? raw.length : 0;
+    const coordinates = (Array.isArray(raw) ? raw : [])
+        .map(coordsArrayToCoordinate)
+        .filter((coord): coord is Coordinate => coord !== null);
+    const location = coordinatesBounds(coordinates);
+
+    if (rawCount < minCount) {
+        diagnostics.push({
+            severity: 'error',
+            reason: 'too-few-coordinates',
+            message: `Has ${rawCount} coordinate${rawCount === 1 ? '' : 's'}, needs at least ${minCount}; skipped${skippedNote}`,
+            path,
+            location,
+        });
+        return null;
+    }
+
+    const dropped = rawCount - coordinates.length;
+    if (coordinates.length < minCount) {
+        diagnostics.push({
+            severity: 'error',
+            reason: 'non-finite-coordinates',
+            message: `Only ${coordinates.length} of ${rawCount} coordinates are finite; skipped${skippedNote}`,
+            path,
+            location,
+        });
+        return null;
+    }
+
+    if (dropped > 0) {
+        diagnostics.push({
+            severity: 'warning',
+            reason: 'non-finite-coordinates',
+            message: `Dropped ${dropped} non-finite coordinate${dropped === 1 ? '' : 's'}`,
+            path,
+            location,
+        });
+    }
+
+    return coordinates;
+}
+
+export function parseIrrigationProject(json: IrrigationProject): ParseResult {
     const shapes: Shape[] = [];
+    const diagnostics: ImportDiagnostic[] = [];
+    const hierarchy: HierarchyEntry[] = [];
 
     if (!json || !json.SubAreas) {
-        console.error('Invalid irrigation project data');
-        return shapes;
+        diagnostics.push({
+            severity: 'error',
+            reason: 'invalid-project',
+            message: 'Project has no SubAreas',
+            path: [],
+        });
+        return {shapes, diagnostics, hierarchy};
     }
 
-    json.SubAreas.forEach((subArea) => {
-        if (!subArea || !subArea.Coordinates || subArea.Coordinates.length < 3) {
-            console.warn(`Skipping invalid subarea: ${subArea?.Id}`);
+    json.SubAreas.forEach((subArea, subAreaIndex) => {
+        if (!subArea) {
+            diagnostics.push({
+                severity: 'error',
+                reason: 'missing-entity',
+                message: `SubArea entry ${subAreaIndex} is empty; skipped`,
+                path: [{entity: 'SubArea', id: `#${subAreaIndex}`}],
+            });
             return;
         }
 
+        const subAreaPath: DiagnosticPathSegment[] = [{entity: 'SubArea', id: subArea.Id, number: subArea.Number}];
+        const blockCount = subArea.Blocks?.length ?? 0;
+
         // Add SubArea polygon - use default styling for now
-        const coordinates = subArea.Coordinates
-            .map(coordsArrayToCoordinate)
-            .filter((coord): coord is Coordinate => coord !== null);
+        const coordinates = collectCoordinates(
+            subArea.Coordinates,
+            3,
+            subAreaPath,
+            diagnostics,
+            blockCount > 0 ? ` with its ${blockCount} block${blockCount === 1 ? '' : 's'}` : '',
+        );
 
-        if (coordinates.length < 3) {
-            console.warn(`Subarea ${subArea.Id} has insufficient valid coordinates`);
+        if (!coordinates) {
             return;
         }
 
@@ -43,46 +178,45 @@ export function parseIrrigationProject(json: IrrigationProject): Shape[] {
             },
             label: `SubArea ${subArea.Number}`,
         });
+        hierarchy.push({
+            id: `subarea-${subArea.Id}`,
+            type: 'subarea',
+            parentId: null,
+            sourceId: subArea.Id,
+            number: subArea.Number,
+        });
 
         // Add Blocks
         if (!subArea.Blocks) {
             return;
         }
 
-        subArea.Blocks.forEach((block) => {
-            if (!block || !block.Coordinates || block.Coordinates.length < 3) {
-                console.warn(`Skipping invalid block: ${block?.Id}`);
+        subArea.Blocks.forEach((block, blockIndex) => {
+            if (!block) {
+                diagnostics.push({
+                    severity: 'error',
+                    reason: 'missing-entity',
+                    message: `Block entry ${blockIndex} is empty; skipped`,
+                    path: [...subAreaPath, {entity: 'Block', id: `#${blockIndex}`}],
+                });
                 return;
             }
 
-            // Extract styles from ExternalSnapshot if available
+            const blockPath: DiagnosticPathSegment[] = [...subAreaPath, {entity: 'Block', id: block.Id, number: block.Number}];
+            const lateralCount = block.Laterals?.Laterals?.length ?? 0;
+
             const externalSnapshot = block.ExternalSnapshot;
-            let fillColor = '#FFFFFF';
-            let borderColor = '#0038FF';
-            let borderWidth = 1;
-            let opacity = 0.2;
-
-            if (externalSnapshot) {
-                if (externalSnapshot.BlockDesignFillColor?.Value) {
-                    fillColor = String(externalSnapshot.BlockDesignFillColor.Value);
-                }
-                if (externalSnapshot.BlockDesignBorderColor?.Value) {
-                    borderColor = String(externalSnapshot.BlockDesignBorderColor.Value);
-                }
-                if (externalSnapshot.BlockDesignBorderWidth?.Value !== undefined) {
-                    borderWidth = Number(externalSnapshot.BlockDesignBorderWidth.Value);
-                }
-                if (externalSnapshot.BlockDesignOpacity?.Value !== undefined) {
-                    opacity = Number(externalSnapshot.BlockDesignOpacity.Value) / 100; // Convert percentage to decimal
-                }
-            }
+            const blockStyle = parseBlockStyle(externalSnapshot);
 
-            const blockCoordinates = block.Coordinates
-                .map(coordsArrayToCoordinate)
-                .filter((coord): coord is Coordinate => coord !== null);
+            const blockCoordinates = collectCoordinates(
+                block.Coordinates,
+                3,
+                blockPath,
+                diagnostics,
+                lateralCount > 0 ? ` with its ${lateralCount} lateral${lateralCount === 1 ? '' : 's'}` : '',
+            );
 
-            if (blockCoordinates.length < 3) {
-                console.warn(`Block ${block.Id} has insufficient valid coordinates`);
+            if (!blockCoordinates) {
                 return;
             }
 
@@ -90,50 +224,49 @@ export function parseIrrigationProject(json: IrrigationProject): Shape[] {
                 id: `block-${block.Id}`,
                 type: 'polygon',
                 coordinates: blockCoordinates,
-                style: {
-                    fillColor,
-                    borderColor,
-                    borderWidth,
-                    opacity,
-                },
+                style: blockStyle,
                 label: `Block ${block.Number}`,
             });
+            hierarchy.push({
+                id: `block-${block.Id}`,
+                type: 'block',
+                parentId: `subarea-${subArea.Id}`,
+                sourceId: block.Id,
+                number: block.Number,
+            });
 
             // Add Laterals (as lines)
             if (!block.Laterals?.Laterals) {
+                diagnostics.push({
+                    severity: 'warning',
+                    reason: 'missing-laterals',
+                    message: 'Block has no Laterals',
+                    path: blockPath,
+                    location: coordinatesBounds(blockCoordinates),
+                });
                 return;
             }
 
-            // Extract lateral styles from Block's ExternalSnapshot
-            let lateralColor = '#0038FF';
-            let lateralWidth = 1;
-
-            if (externalSnapshot?.LateralDesignLineStyle) {
-                const lateralStyle = externalSnapshot.LateralDesignLineStyle;
-                // Use PreHydraulicCalculation style if available, otherwise PostHydraulicCalculation
-                if (lateralStyle.PreHydraulicCalculationBorderColor?.Value) {
-                    lateralColor = String(lateralStyle.PreHydraulicCalculationBorderColor.Value);
-                } else if (lateralStyle.PostHydraulicCalculationBorderColor?.Value) {
-                    lateralColor = String(lateralStyle.PostHydraulicCalculationBorderColor.Value);
-                }
+            const lateralStyle = parseLateralStyle(externalSnapshot);
 
-                if (lateralStyle.PreHydraulicCalculationBorderWidth?.Value !== undefined) {
-                    lateralWidth = Number(lateralStyle.PreHydraulicCalculationBorderWidth.Value);
-                } else if (lateralStyle.PostHydraulicCalculationBorderWidth?.Value !== undefined) {
-                    lateralWidth = Number(lateralStyle.PostHydraulicCalculationBorderWidth.Value);
-                }
-            }
-
-            block.Laterals.Laterals.forEach((lateral) => {
-                if (!lateral || !lateral.Layout || lateral.Layout.length < 2) {
+            block.Laterals.Laterals.forEach((lateral, lateralIndex) => {
+                if (!lateral) {
+                    diagnostics.push({
+                        severity: 'error',
+                        reason: 'missing-entity',
+                        message: `Lateral entry ${lateralIndex} is empty; skipped`,
+                        path: [...blockPath, {entity: 'Lateral', id: `#${lateralIndex}`}],
+                    });
                     return;
                 }
 
-                const lateralPoints = lateral.Layout
-                    .map(coordsArrayToCoordinate)
-                    .filter((coord): coord is Coordinate => coord !== null);
+                const lateralPath: DiagnosticPathSegment[] = [
+                    ...blockPath,
+                    {entity: 'Lateral', id: String(lateral.Index), number: lateral.Index},
+                ];
+                const lateralPoints = collectCoordinates(lateral.Layout, 2, lateralPath, diagnostics);
 
-                if (lateralPoints.length < 2) {
+                if (!lateralPoints) {
                     return;
                 }
 
@@ -141,16 +274,20 @@ export function parseIrrigationProject(json: IrrigationProject): Shape[] {
                     id: `lateral-${block.Id}-${lateral.Index}`,
                     type: 'line',
                     points: lateralPoints,
-                    style: {
-                        borderColor: lateralColor,
-                        borderWidth: lateralWidth,
-                    },
+                    style: {...lateralStyle},
+                });
+                hierarchy.push({
+                    id: `lateral-${block.Id}-${lateral.Index}`,
+                    type: 'lateral',
+                    parentId: `block-${block.Id}`,
+                    sourceId: String(lateral.Index),
+                    number: lateral.Index,
                 });
             });
         });
     });
 
-    return shapes;
+    return {shapes, diagnostics, hierarchy};
 }
 
 export function calculateBounds(shapes: Shape[]): {
@@ -0,0 +1,127 @@
+import type {Coordinate} from '../types/shapes';
+
+export interface LateralOptions {
+    spacing: number;     // Distance between neighbouring laterals, m
+    angle: number;       // Lateral direction in degrees, counter-clockwise from east
+    edgeOffset: number;  // Clearance kept from the block outline, m
+    minLength: number;   // Shorter pieces are dropped, m
+}
+
+type Interval = [number, number];
+
+// Local frame: s runs along the laterals, t across them
+interface LocalPoint {
+    s: number;
+    t: number;
+}
+
+// Where the scanline t = c crosses the ring, paired into inside intervals (even-odd, so concave rings work)
+function insideIntervals(ring: LocalPoint[], c: number): Interval[] {
+    const crossings: number[] = [];
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[j];
+        const b = ring[i];
+        if ((a.t > c) !== (b.t > c)) {
+            crossings.push(a.s + (c - a.t) * (b.s - a.s) / (b.t - a.t));
+        }
+    }
+    crossings.sort((x, y) => x - y);
+
+    const intervals: Interval[] = [];
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+        intervals.push([crossings[i], crossings[i + 1]]);
+    }
+    return intervals;
+}
+
+// Part of the scanline within distance of edge ab. The capsule around the edge is convex, so this is a
+// single interval bounded by the end circles or the two offset copies of the edge.
+function edgeClearance(a: LocalPoint, b: LocalPoint, c: number, distance: number): Interval | null {
+    const candidates: number[] = [];
+
+    [a, b].forEach((p) => {
+        const dt = p.t - c;
+        if (Math.abs(dt) <= distance) {
+            const half = Math.sqrt(distance * distance - dt * dt);
+            candidates.push(p.s - half, p.s + half);
+        }
+    });
+
+    const length = Math.hypot(b.s - a.s, b.t - a.t);
+    if (length > 0) {
+        const ns = -(b.t - a.t) / length * distance;
+        const nt = (b.s - a.s) / length * distance;
+        [1, -1].forEach((side) => {
+            const start = { s: a.s + side * ns, t: a.t + side * nt };
+            const end = { s: b.s + side * ns, t: b.t + side * nt };
+            if (start.t !== end.t && (start.t - c) * (end.t - c) <= 0) {
+                candidates.push(start.s + (c - start.t) * (end.s - start.s) / (end.t - start.t));
+            }
+        });
+    }
+
+    return candidates.length > 0 ? [Math.min(...candidates), Math.max(...candidates)] : null;
+}
+
+function subtractIntervals(intervals: Interval[], removed: Interval[]): Interval[] {
+    let result = intervals;
+    removed.forEach(([from, to]) => {
+        result = result.flatMap(([start, end]): Interval[] => {
+            if (to <= start || from >= end) return [[start, end]];
+
+            const pieces: Interval[] = [];
+            if (from > start) pieces.push([start, from]);
+            if (to < end) pieces.push([to, end]);
+            return pieces;
+        });
+    });
+    return result;
+}
+
+// Fill a polygon (scene coordinates) with parallel laterals, clipped to the outline minus the edge
+// offset. Laterals are spread evenly across the polygon so the margins on both sides match.
+export function generateLaterals(polygon: Coordinate[], options: LateralOptions): Coordinate[][] {
+    const { spacing, angle, edgeOffset, minLength } = options;
+    if (polygon.length < 3 || !(spacing > 0)) return [];
+
+    // Scene Y is flipped, so a counter-clockwise world angle is clockwise here
+    const radians = angle * Math.PI / 180;
+    const along = { x: Math.cos(radians), y: -Math.sin(radians) };
+    const across = { x: Math.sin(radians), y: Math.cos(radians) };
+    const ring = polygon.map(({ x, y }) => ({ s: x * along.x + y * along.y, t: x * across.x + y * across.y }));
+
+    let minT = Infinity, maxT = -Infinity;
+    ring.forEach(({ t }) => {
+        minT = Math.min(minT, t);
+        maxT = Math.max(maxT, t);
+    });
+
+    const count = Math.max(1, Math.floor((maxT - minT) / spacing));
+    const firstT = (minT + maxT) / 2 - (count - 1) * spacing / 2;
+    const laterals: Coordinate[][] = [];
+
+    for (let k = 0; k < count; k++) {
+        const t = firstT + k * spacing;
+        let intervals = insideIntervals(ring, t);
+
+        if (edgeOffset > 0) {
+            const blocked: Interval[] = [];
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const clearance = edgeClearance(ring[j], ring[i], t, edgeOffset);
+                if (clearance) blocked.push(clearance);
+            }
+            intervals = subtractIntervals(intervals, blocked);
+        }
+
+        intervals
+            .filter(([start, end]) => end - start > 0 && end - start >= minLength)
+            .forEach(([start, end]) => {
+                laterals.push([start, end].map(s => ({
+                    x: s * along.x + t * across.x,
+                    y: s * along.y + t * across.y,
+                })));
+            });
+    }
+
+    return laterals;
+}
@@ -0,0 +1,70 @@
+import type {Coordinate, Shape} from '../types/shapes';
+import {angleAtVertex, polygonArea, polylineLength} from './geometry';
+
+// Project coordinates are UTM, so one unit is one metre
+export const SQUARE_METRES_PER_HECTARE = 10000;
+const FEET_PER_METRE = 1 / 0.3048;
+const SQUARE_METRES_PER_ACRE = 4046.8564224;
+
+export interface ShapeMeasurements {
+    area?: number;       // m²
+    perimeter?: number;  // m
+    length?: number;     // m
+}
+
+export interface PathMeasurements {
+    length: number;      // Along the path including any closing segment, m
+    segments: number[];  // Each segment's length, m
+    angles: number[];    // Degrees at each interior vertex, or at every vertex when closed
+    area?: number;       // Only for closed paths
+}
+
+const formatNumber = (value: number, digits: number) =>
+    value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+export function formatLength(metres: number, imperial: boolean = false): string {
+    const metric = `${formatNumber(metres, 2)} m`;
+    return imperial ? `${metric} · ${formatNumber(metres * FEET_PER_METRE, 2)} ft` : metric;
+}
+
+export function formatArea(squareMetres: number, imperial: boolean = false): string {
+    const metric = `${formatNumber(squareMetres, 1)} m² · ${formatNumber(squareMetres / SQUARE_METRES_PER_HECTARE, 4)} ha`;
+    return imperial ? `${metric} · ${formatNumber(squareMetres / SQUARE_METRES_PER_ACRE, 4)} ac` : metric;
+}
+
+export function formatAngle(degrees: number): string {
+    return `${formatNumber(degrees, 1)}°`;
+}
+
+export function measureShape(shape: Shape): ShapeMeasurements {
+    if (shape.type === 'polygon') {
+        return { area: polygonArea(shape.coordinates), perimeter: polylineLength(shape.coordinates, true) };
+    }
+    if (shape.type === 'line') {
+        return { length: polylineLength(shape.points) };
+    }
+    return {};
+}
+
+// Measure tool readout; a closed path is treated as a polygon
+export function measurePath(points: Coordinate[], closed: boolean): PathMeasurements {
+    const count = points.length;
+    const isPolygon = closed && count >= 3;
+    const segments: number[] = [];
+    const angles: number[] = [];
+
+    for (let i = 1; i < count; i++) {
+        segments.push(polylineLength([points[i - 1], points[i]]));
+    }
+    if (isPolygon) {
+        segments.push(polylineLength([points[count - 1], points[0]]));
+        points.forEach((vertex, i) => angles.push(angleAtVertex(points[(i - 1 + count) % count], vertex, points[(i + 1) % count])));
+    } else {
+        for (let i = 1; i < count - 1; i++) {
+            angles.push(angleAtVertex(points[i - 1], points[i], points[i + 1]));
+        }
+    }
+
+    const length = segments.reduce((sum, segment) => sum + segment, 0);
+    return isPolygon ? { length, segments, angles, area: polygonArea(points) } : { length, segments, angles };
+}
@@ -0,0 +1,154 @@
+import polygonClipping from 'polygon-clipping';
+import type {MultiPolygon, Polygon} from 'polygon-clipping';
+import type {Coordinate} from '../types/shapes';
+import {polygonArea} from './geometry';
+import {OFFSET_CONFIG} from '../config/constants';
+
+export type OffsetJoin = 'miter' | 'round' | 'bevel';
+
+type Point = [number, number];
+
+// Everything is built relative to a local origin so UTM-sized coordinates keep their precision
+function toLocal(points: Coordinate[], origin: Coordinate): Point[] {
+    const local: Point[] = [];
+    points.forEach(({ x, y }) => {
+        const point: Point = [x - origin.x, y - origin.y];
+        const previous = local[local.length - 1];
+        // Zero-length segments have no direction to offset along
+        if (!previous || previous[0] !== point[0] || previous[1] !== point[1]) {
+            local.push(point);
+        }
+    });
+    return local;
+}
+
+function unitNormal(a: Point, b: Point): Point {
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    return [-(b[1] - a[1]) / length, (b[0] - a[0]) / length];
+}
+
+// Everything within distance of segment ab, without the rounded ends
+function segmentBand(a: Point, b: Point, distance: number): Polygon {
+    const [nx, ny] = unitNormal(a, b);
+    const dx = nx * distance;
+    const dy = ny * distance;
+    return [[[a[0] + dx, a[1] + dy], [b[0] + dx, b[1] + dy], [b[0] - dx, b[1] - dy], [a[0] - dx, a[1] - dy]]];
+}
+
+// Pie slice from start, swept by sweep radians about center, to end. start and end are passed in rather
+// than recomputed so they match the band corners exactly: the clipper can't cope with nearly-coincident
+// vertices, which is what a full circle per vertex produced.
+function arcWedge(center: Point, start: Point, end: Point, sweep: number): Polygon {
+    const radius = Math.hypot(start[0] - center[0], start[1] - center[1]);
+    // Enough segments that the chords stay within the arc tolerance of the true arc
+    const tolerance = Math.min(OFFSET_CONFIG.arcTolerance, radius / 2);
+    const step = 2 * Math.acos(1 - tolerance / radius);
+    const segments = Math.min(64, Math.max(1, Math.ceil(Math.abs(sweep) / step)));
+
+    const startAngle = Math.atan2(start[1] - center[1], start[0] - center[0]);
+    const ring: Point[] = [center, start];
+    for (let i = 1; i < segments; i++) {
+        const angle = startAngle + sweep * i / segments;
+        ring.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+    }
+    ring.push(end);
+    return [ring];
+}
+
+// Fills the wedge the two bands leave open on the outside of the turn at vertex
+function joinPiece(previous: Point, vertex: Point, next: Point, distance: number, join: OffsetJoin): Polygon | null {
+    const n1 = unitNormal(previous, vertex);
+    const n2 = unitNormal(vertex, next);
+    const cross = n1[0] * n2[1] - n1[1] * n2[0];
+    const dot = n1[0] * n2[0] + n1[1] * n2[1];
+    const straight = Math.abs(cross) < 1e-12;
+    // Straight on, or doubling straight back where only a round join has an outside to fill
+    if (straight && (join !== 'round' || dot > 0)) return null;
+
+    const side = cross > 0 && !straight ? -distance : distance;
+    const start: Point = [vertex[0] + n1[0] * side, vertex[1] + n1[1] * side];
+    const end: Point = [vertex[0] + n2[0] * side, vertex[1] + n2[1] * side];
+
+    if (join === 'round') {
+        // The arc turns as far as the edge direction does; doubling back it goes round the end, past the
+        // incoming direction (a quarter turn clockwise from n1)
+        return arcWedge(vertex, start, end, straight ? -Math.PI : Math.atan2(cross, dot));
+    }
+
+    // The miter tip sits 1 / cos(half the turn) away; past the limit it's cut back to a bevel
+    if (join === 'miter' && Math.sqrt(2 / (1 + dot)) <= OFFSET_CONFIG.miterLimit) {
+        const scale = side / (1 + dot);
+        const tip: Point = [vertex[0] + (n1[0] + n2[0]) * scale, vertex[1] + (n1[1] + n2[1]) * scale];
+        return [[vertex, start, tip, end]];
+    }
+    return [[vertex, start, end]];
+}
+
+// Shapes only have an outer ring, so holes (e.g. where an outward offset closes a U-shaped block) are dropped
+function fromMultiPolygon(result: MultiPolygon, origin: Coordinate): Coordinate[][] {
+    return result
+        .map(([outer]) => outer.slice(0, -1).map(([x, y]) => ({ x: x + origin.x, y: y + origin.y })))
+        .sort((a, b) => polygonArea(b) - polygonArea(a));
+}
+
+// Grow (positive distance) or shrink (negative) a polygon. The result is built as the polygon plus or
+// minus a band around every edge and a join at every vertex, so self-intersections from concave corners
+// resolve themselves. Shrinking can split the polygon into several pieces, or remove it completely.
+export function offsetPolygon(polygon: Coordinate[], distance: number, join: OffsetJoin): Coordinate[][] {
+    const origin = polygon[0];
+    const ring = toLocal(polygon, origin);
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) ring.pop();
+    if (ring.length < 3 || distance === 0) return [];
+
+    const width = Math.abs(distance);
+    const pieces: Polygon[] = [];
+    ring.forEach((vertex, i) => {
+        const previous = ring[(i - 1 + ring.length) % ring.length];
+        const next = ring[(i + 1) % ring.length];
+        pieces.push(segmentBand(vertex, next, width));
+        const piece = joinPiece(previous, vertex, next, width, join);
+        if (piece) pieces.push(piece);
+    });
+
+    const result = distance > 0
+        ? polygonClipping.union([ring], ...pieces)
+        : polygonClipping.difference([ring], ...pieces);
+    return fromMultiPolygon(result, origin);
+}
+
+// Corridor of the given width on both sides of a line. Round joins also round the ends; the others
+// leave them square to the last segment.
+export function bufferPolyline(points: Coordinate[], distance: number, join: OffsetJoin): Coordinate[][] {
+    if (points.length === 0 || !(distance > 0)) return [];
+
+    const origin = points[0];
+    const line = toLocal(points, origin);
+    if (line.length < 2) return [];
+
+    const pieces: Polygon[] = [];
+    line.forEach((vertex, i) => {
+        if (i + 1 < line.length) {
+            pieces.push(segmentBand(vertex, line[i + 1], distance));
+        }
+        if (i > 0 && i + 1 < line.length) {
+            const piece = joinPiece(line[i - 1], vertex, line[i + 1], distance, join);
+            if (piece) pieces.push(piece);
+        }
+    });
+    if (join === 'round') {
+        // Half discs from one band corner round to the other, on the far side of each end
+        const [first, second] = [line[0], line[1]];
+        const [beforeLast, last] = [line[line.length - 2], line[line.length - 1]];
+        const [sx, sy] = unitNormal(first, second);
+        const [ex, ey] = unitNormal(beforeLast, last);
+        pieces.push(
+            arcWedge(first, [first[0] - sx * distance, first[1] - sy * distance], [first[0] + sx * distance, first[1] + sy * distance], -Math.PI),
+            arcWedge(last, [last[0] + ex * distance, last[1] + ey * distance], [last[0] - ex * distance, last[1] - ey * distance], -Math.PI),
+        );
+    }
+
+    const [first, ...rest] = pieces;
+    return fromMultiPolygon(polygonClipping.union(first, ...rest), origin);
+}
@@ -0,0 +1,188 @@
+import polygonClipping from 'polygon-clipping';
+import type {MultiPolygon, Ring} from 'polygon-clipping';
+import type {Coordinate} from '../types/shapes';
+import {pointInPolygon, polygonArea} from './geometry';
+
+export type BooleanOperation = 'union' | 'difference' | 'intersection' | 'xor';
+
+// Vertices closer than this (in metres) are treated as the same node when splitting
+const SPLIT_TOLERANCE = 1e-6;
+
+function toRing(coordinates: Coordinate[]): Ring {
+    return coordinates.map(({ x, y }) => [x, y]);
+}
+
+// polygon-clipping closes its rings by repeating the first vertex; shapes don't
+function fromMultiPolygon(result: MultiPolygon): Coordinate[][] {
+    return result.map((polygon) => {
+        // Shapes only have an outer ring
+        if (polygon.length > 1) {
+            throw new Error('The result would have a hole, which polygons can\'t represent');
+        }
+        return polygon[0].slice(0, -1).map(([x, y]) => ({ x, y }));
+    });
+}
+
+// Boolean operation of the primary polygon with the others. Inputs may be concave or self-touching;
+// outputs are simple rings, largest first.
+export function polygonBoolean(operation: BooleanOperation, primary: Coordinate[], others: Coordinate[][]): Coordinate[][] {
+    const subject = [toRing(primary)];
+    const clips = others.map(ring => [toRing(ring)]);
+    const result = polygonClipping[operation](subject, ...clips);
+    if (result.length === 0) {
+        throw new Error('The polygons don\'t overlap, so the result would be empty');
+    }
+    return fromMultiPolygon(result).sort((a, b) => polygonArea(b) - polygonArea(a));
+}
+
+interface SplitNode {
+    point: Coordinate;
+    neighbours: Set<number>;
+}
+
+// Crossing parameters along ab and cd, or null when they don't cross (parallel segments never do)
+function crossingParameters(a: Coordinate, b: Coordinate, c: Coordinate, d: Coordinate): [number, number] | null {
+    const denominator = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+    if (denominator === 0) return null;
+
+    const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denominator;
+    const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denominator;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [t, u] : null;
+}
+
+// Cut a polygon into pieces along a polyline. The outline and the parts of the line inside it form a
+// planar graph; every bounded face of that graph is one piece. Dangling line ends are ignored, so the
+// line must cross the outline (or itself) to cut anything.
+export function splitPolygonByPolyline(polygon: Coordinate[], line: Coordinate[]): Coordinate[][] {
+    // Work relative to the first vertex so UTM-sized coordinates keep their precision
+    const origin = polygon[0];
+    const ring = polygon.map(({ x, y }) => ({ x: x - origin.x, y: y - origin.y }));
+    const path = line.map(({ x, y }) => ({ x: x - origin.x, y: y - origin.y }));
+    if (ring.length > 3 && ring[0].x === ring[ring.length - 1].x && ring[0].y === ring[ring.length - 1].y) {
+        ring.pop();
+    }
+
+    const nodes: SplitNode[] = [];
+    const nodeIds = new Map<string, number>();
+    const nodeAt = (point: Coordinate) => {
+        const key = `${Math.round(point.x / SPLIT_TOLERANCE)},${Math.round(point.y / SPLIT_TOLERANCE)}`;
+        let id = nodeIds.get(key);
+        if (id === undefined) {
+            id = nodes.length;
+            nodes.push({ point, neighbours: new Set() });
+            nodeIds.set(key, id);
+        }
+        return id;
+    };
+    const connect = (from: Coordinate, to: Coordinate) => {
+        const a = nodeAt(from);
+        const b = nodeAt(to);
+        if (a === b) return;
+        nodes[a].neighbours.add(b);
+        nodes[b].neighbours.add(a);
+    };
+
+    // Split every outline edge and line segment at their crossings
+    const ringCuts = ring.map(() => [0, 1]);
+    const pathCuts = path.slice(1).map(() => [0, 1]);
+    ring.forEach((a, i) => {
+        const b = ring[(i + 1) % ring.length];
+        for (let j = 0; j + 1 < path.length; j++) {
+            const crossing = crossingParameters(a, b, path[j], path[j + 1]);
+            if (crossing) {
+                ringCuts[i].push(crossing[0]);
+                pathCuts[j].push(crossing[1]);
+            }
+        }
+    });
+    // A line crossing itself also closes off pieces
+    for (let i = 0; i + 1 < path.length; i++) {
+        for (let j = i + 2; j + 1 < path.length; j++) {
+            const crossing = crossingParameters(path[i], path[i + 1], path[j], path[j + 1]);
+            if (crossing) {
+                pathCuts[i].push(crossing[0]);
+                pathCuts[j].push(crossing[1]);
+            }
+        }
+    }
+
+    const along = (a: Coordinate, b: Coordinate, t: number) => ({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+    ring.forEach((a, i) => {
+        const b = ring[(i + 1) % ring.length];
+        const cuts = [...new Set(ringCuts[i])].sort((p, q) => p - q);
+        for (let k = 0; k + 1 < cuts.length; k++) {
+            connect(along(a, b, cuts[k]), along(a, b, cuts[k + 1]));
+        }
+    });
+    pathCuts.forEach((parameters, j) => {
+        const a = path[j];
+        const b = path[j + 1];
+        const cuts = [...new Set(parameters)].sort((p, q) => p - q);
+        for (let k = 0; k + 1 < cuts.length; k++) {
+            const start = along(a, b, cuts[k]);
+            const end = along(a, b, cuts[k + 1]);
+            // Only the parts of the line inside the polygon cut it
+            if (pointInPolygon(along(start, end, 0.5), ring)) {
+                connect(start, end);
+            }
+        }
+    });
+
+    // Dead ends can't bound a face
+    const pending = nodes.map((_, id) => id).filter(id => nodes[id].neighbours.size === 1);
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        nodes[id].neighbours.forEach((neighbour) => {
+            nodes[neighbour].neighbours.delete(id);
+            if (nodes[neighbour].neighbours.size === 1) pending.push(neighbour);
+        });
+        nodes[id].neighbours.clear();
+    }
+
+    // Neighbours in angular order, so each face can be walked keeping it on the left
+    const sorted = nodes.map(({ point, neighbours }) => [...neighbours].sort((p, q) =>
+        Math.atan2(nodes[p].point.y - point.y, nodes[p].point.x - point.x) -
+        Math.atan2(nodes[q].point.y - point.y, nodes[q].point.x - point.x)));
+
+    const visited = new Set<string>();
+    const pieces: Coordinate[][] = [];
+    sorted.forEach((neighbours, start) => {
+        neighbours.forEach((first) => {
+            if (visited.has(`${start}>${first}`)) return;
+
+            const face: Coordinate[] = [];
+            let from = start;
+            let to = first;
+            while (!visited.has(`${from}>${to}`)) {
+                visited.add(`${from}>${to}`);
+                face.push(nodes[from].point);
+                // Next edge clockwise from the way back
+                const around = sorted[to];
+                const next = around[(around.indexOf(from) - 1 + around.length) % around.length];
+                from = to;
+                to = next;
+            }
+
+            // Walking with the face on the left gives bounded faces a positive signed area
+            let doubled = 0;
+            face.forEach((a, i) => {
+                const b = face[(i + 1) % face.length];
+                doubled += a.x * b.y - b.x * a.y;
+            });
+            if (doubled / 2 > SPLIT_TOLERANCE) {
+                pieces.push(face.map(({ x, y }) => ({ x: x + origin.x, y: y + origin.y })));
+            }
+        });
+    });
+
+    if (pieces.length < 2) {
+        throw new Error('The line has to cross the polygon to split it');
+    }
+    // A loop drawn entirely inside the outline would leave the outer piece with a hole
+    const total = pieces.reduce((sum, piece) => sum + polygonArea(piece), 0);
+    if (Math.abs(total - polygonArea(polygon)) > Math.max(SPLIT_TOLERANCE, polygonArea(polygon) * 1e-9)) {
+        throw new Error('The result would have a hole, which polygons can\'t represent');
+    }
+
+    return pieces.sort((a, b) => polygonArea(b) - polygonArea(a));
+}
@@ -0,0 +1,17 @@
+import type {IrrigationProject} from '../types/shapes';
+
+export function parseProjectText(text: string): IrrigationProject {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+
+    const project = json as IrrigationProject;
+    if (!project || typeof project !== 'object' || !Array.isArray(project.SubAreas)) {
+        throw new Error('File is not an irrigation project (missing SubAreas)');
+    }
+
+    return project;
+}
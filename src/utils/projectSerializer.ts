@@ -0,0 +1,201 @@
+import type {Block, Coordinate, IrrigationProject, Lateral, LineShape, PolygonShape, Shape, ShapeStyle, SubArea} from '../types/shapes';
+import {coordsArrayToCoordinate, parseBlockStyle} from './jsonParser';
+import type {HierarchyEntry} from '../types/hierarchy';
+import {pointInPolygon} from './geometry';
+
+function coordinateToCoordsArray(coord: Coordinate, original?: number[]): number[] {
+    // Un-negate Y and keep any extra ordinates (e.g. elevation) from the source
+    const extra = original && original.length > 2 ? original.slice(2) : [];
+    return [coord.x, -coord.y, ...extra];
+}
+
+function coordinatesToCoordsArray(coords: Coordinate[], original: number[][] = []): number[][] {
+    // Extra ordinates only line up when the vertex count hasn't changed
+    const keepExtra = coords.length === original.length;
+    return coords.map((coord, i) => coordinateToCoordsArray(coord, keepExtra ? original[i] : undefined));
+}
+
+// Mirrors the parser's rule for whether an entity made it into the scene at all
+function countValidCoords(coords: number[][] | undefined): number {
+    if (!coords) return 0;
+    return coords.filter(c => coordsArrayToCoordinate(c) !== null).length;
+}
+
+function writeBlockStyle(block: Block, style: ShapeStyle): void {
+    const imported = parseBlockStyle(block.ExternalSnapshot);
+    const snapshot = block.ExternalSnapshot ?? {};
+    let changed = false;
+
+    if (style.fillColor !== undefined && style.fillColor !== imported.fillColor) {
+        snapshot.BlockDesignFillColor = {...snapshot.BlockDesignFillColor, Value: style.fillColor};
+        changed = true;
+    }
+    if (style.borderColor !== undefined && style.borderColor !== imported.borderColor) {
+        snapshot.BlockDesignBorderColor = {...snapshot.BlockDesignBorderColor, Value: style.borderColor};
+        changed = true;
+    }
+    if (style.borderWidth !== undefined && style.borderWidth !== imported.borderWidth) {
+        snapshot.BlockDesignBorderWidth = {...snapshot.BlockDesignBorderWidth, Value: style.borderWidth};
+        changed = true;
+    }
+    if (style.opacity !== undefined && style.opacity !== imported.opacity) {
+        snapshot.BlockDesignOpacity = {...snapshot.BlockDesignOpacity, Value: Math.round(style.opacity * 100)}; // Back to percentage
+        changed = true;
+    }
+
+    if (changed) {
+        block.ExternalSnapshot = snapshot;
+    }
+}
+
+function newId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export interface SerializedProject {
+    project: IrrigationProject;
+    skippedIds: string[];  // New shapes with nowhere to go in the project, so left out
+}
+
+// Rebuild an IrrigationProject from the current scene. The source is deep-cloned so ids, names,
+// ExternalSnapshot and any fields we don't model survive the round trip. Imported entities no longer
+// in the scene are dropped; entities the parser skipped as invalid are kept untouched. Shapes created
+// in the editor become Blocks of their hierarchy parent SubArea and Laterals of their parent block
+// (e.g. generated laterals), falling back to containment when they have no parent. Polygons outside
+// every SubArea and lines outside every Block are reported in skippedIds. Imported reference shapes
+// (anything with a layer) and plain 'shape' entries aren't project content and are never written.
+export function serializeIrrigationProject(
+    source: IrrigationProject,
+    shapes: Shape[],
+    getEntry: (id: string) => HierarchyEntry | undefined = () => undefined,
+): SerializedProject {
+    const project = structuredClone(source);
+    const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+    const knownIds = new Set<string>();
+
+    project.SubAreas = (project.SubAreas ?? []).filter((subArea: SubArea) => {
+        if (!subArea || countValidCoords(subArea.Coordinates) < 3) {
+            return true; // Never imported, leave as-is
+        }
+
+        const subAreaId = `subarea-${subArea.Id}`;
+        knownIds.add(subAreaId);
+        const subAreaShape = shapesById.get(subAreaId);
+        if (!subAreaShape || subAreaShape.type !== 'polygon') {
+            return false; // Deleted in the editor
+        }
+        subArea.Coordinates = coordinatesToCoordsArray(subAreaShape.coordinates, subArea.Coordinates);
+
+        if (!subArea.Blocks) {
+            return true;
+        }
+
+        subArea.Blocks = subArea.Blocks.filter((block: Block) => {
+            if (!block || countValidCoords(block.Coordinates) < 3) {
+                return true;
+            }
+
+            const blockId = `block-${block.Id}`;
+            knownIds.add(blockId);
+            const blockShape = shapesById.get(blockId);
+            if (!blockShape || blockShape.type !== 'polygon') {
+                return false;
+            }
+            block.Coordinates = coordinatesToCoordsArray(blockShape.coordinates, block.Coordinates);
+            writeBlockStyle(block, blockShape.style);
+
+            if (!block.Laterals?.Laterals) {
+                return true;
+            }
+
+            block.Laterals.Laterals = block.Laterals.Laterals.filter((lateral: Lateral) => {
+                if (!lateral || countValidCoords(lateral.Layout) < 2) {
+                    return true;
+                }
+
+                const lateralId = `lateral-${block.Id}-${lateral.Index}`;
+                knownIds.add(lateralId);
+                const lateralShape = shapesById.get(lateralId);
+                if (!lateralShape || lateralShape.type !== 'line') {
+                    return false;
+                }
+                lateral.Layout = coordinatesToCoordsArray(lateralShape.points, lateral.Layout);
+                return true;
+            });
+
+            return true;
+        });
+
+        return true;
+    });
+
+    const newShapes = shapes.filter(shape =>
+        !knownIds.has(shape.id) && shape.layer === undefined && getEntry(shape.id)?.type !== 'shape');
+    const skippedIds: string[] = [];
+    const blockTargets: Array<{ id: string; block: Block; coordinates: Coordinate[] }> = [];
+
+    project.SubAreas.forEach((subArea) => {
+        subArea?.Blocks?.forEach((block) => {
+            const blockShape = shapesById.get(`block-${block?.Id}`);
+            if (blockShape && blockShape.type === 'polygon') {
+                blockTargets.push({id: blockShape.id, block, coordinates: blockShape.coordinates});
+            }
+        });
+    });
+
+    // New polygons first, so new lines drawn inside them can attach to them
+    newShapes
+        .filter((shape): shape is PolygonShape => shape.type === 'polygon' && shape.coordinates.length >= 3)
+        .forEach((shape) => {
+            const parentId = getEntry(shape.id)?.parentId;
+            const subArea = project.SubAreas.find(candidate => `subarea-${candidate?.Id}` === parentId)
+                ?? project.SubAreas.find((candidate) => {
+                    const subAreaShape = shapesById.get(`subarea-${candidate?.Id}`);
+                    return subAreaShape?.type === 'polygon' && pointInPolygon(shape.coordinates[0], subAreaShape.coordinates);
+                });
+            if (!subArea) {
+                skippedIds.push(shape.id);
+                return;
+            }
+
+            subArea.Blocks = subArea.Blocks ?? [];
+            const number = subArea.Blocks.reduce((max, b) => Math.max(max, b?.Number ?? 0), 0) + 1;
+            const block: Block = {
+                Id: newId(),
+                Name: shape.label ?? `Block ${number}`,
+                Number: number,
+                Coordinates: coordinatesToCoordsArray(shape.coordinates),
+                Laterals: {Laterals: []},
+            };
+            writeBlockStyle(block, shape.style);
+
+            subArea.Blocks.push(block);
+            blockTargets.push({id: shape.id, block, coordinates: shape.coordinates});
+        });
+
+    newShapes
+        .filter((shape): shape is LineShape => shape.type === 'line' && shape.points.length >= 2)
+        .forEach((shape) => {
+            const parentId = getEntry(shape.id)?.parentId;
+            const target = blockTargets.find(({id}) => id === parentId)
+                ?? blockTargets.find(({coordinates}) => pointInPolygon(shape.points[0], coordinates));
+            if (!target) {
+                skippedIds.push(shape.id);
+                return;
+            }
+
+            const block = target.block;
+            block.Laterals = block.Laterals ?? {Laterals: []};
+            block.Laterals.Laterals = block.Laterals.Laterals ?? [];
+            const index = block.Laterals.Laterals.reduce((max, l) => Math.max(max, l?.Index ?? -1), -1) + 1;
+
+            block.Laterals.Laterals.push({
+                Index: index,
+                Layout: coordinatesToCoordsArray(shape.points),
+            });
+        });
+
+    return {project, skippedIds};
+}
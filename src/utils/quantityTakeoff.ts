@@ -0,0 +1,93 @@
+import type {Shape} from '../types/shapes';
+import type {ProjectHierarchy} from '../model/ProjectHierarchy';
+import {measureShape, SQUARE_METRES_PER_HECTARE} from './measurement';
+
+export interface BlockQuantities {
+    id: string;
+    name: string;
+    subAreaName: string;
+    area: number;           // m²
+    lateralCount: number;
+    lateralLength: number;  // m
+}
+
+export interface SubAreaQuantities {
+    id: string;
+    name: string;
+    blockCount: number;
+    blockArea: number;      // m², sum of its blocks
+    lateralCount: number;
+    lateralLength: number;  // m
+}
+
+export interface QuantityTakeoff {
+    subAreas: SubAreaQuantities[];
+    blocks: BlockQuantities[];
+}
+
+const CSV_HEADER = ['Level', 'SubArea', 'Block', 'Blocks', 'Block area (m2)', 'Block area (ha)', 'Laterals', 'Lateral length (m)'];
+
+// Totals for quoting, from the project hierarchy and the current (possibly edited) shape geometry.
+// Blocks outside any SubArea are listed on their own with an empty SubArea name.
+export function computeQuantityTakeoff(hierarchy: ProjectHierarchy, getShape: (id: string) => Shape | undefined): QuantityTakeoff {
+    const nameOf = (id: string, fallback: string) => {
+        const node = hierarchy.get(id);
+        return getShape(id)?.label ?? `${fallback} ${node?.number ?? node?.sourceId ?? id}`;
+    };
+    const lengthOf = (id: string) => {
+        const shape = getShape(id);
+        return shape ? measureShape(shape).length ?? 0 : 0;
+    };
+
+    const blocks: BlockQuantities[] = hierarchy.getIdsOfType('block').map((blockId) => {
+        const block = getShape(blockId);
+        const subAreaId = hierarchy.getAncestorId(blockId, 'subarea');
+        const lateralIds = hierarchy.getDescendantIds(blockId, 'lateral');
+        return {
+            id: blockId,
+            name: nameOf(blockId, 'Block'),
+            subAreaName: subAreaId ? nameOf(subAreaId, 'SubArea') : '',
+            area: block ? measureShape(block).area ?? 0 : 0,
+            lateralCount: lateralIds.length,
+            lateralLength: lateralIds.reduce((sum, id) => sum + lengthOf(id), 0),
+        };
+    });
+    const blocksById = new Map(blocks.map(block => [block.id, block]));
+
+    const subAreas: SubAreaQuantities[] = hierarchy.getIdsOfType('subarea').map((subAreaId) => {
+        const subAreaBlocks = hierarchy.getDescendantIds(subAreaId, 'block')
+            .map(id => blocksById.get(id))
+            .filter((block): block is BlockQuantities => block !== undefined);
+        // Laterals are counted through the hierarchy so any hung directly off the SubArea are included
+        const lateralIds = hierarchy.getDescendantIds(subAreaId, 'lateral');
+        return {
+            id: subAreaId,
+            name: nameOf(subAreaId, 'SubArea'),
+            blockCount: subAreaBlocks.length,
+            blockArea: subAreaBlocks.reduce((sum, block) => sum + block.area, 0),
+            lateralCount: lateralIds.length,
+            lateralLength: lateralIds.reduce((sum, id) => sum + lengthOf(id), 0),
+        };
+    });
+
+    return { subAreas, blocks };
+}
+
+const csvField = (value: string | number) => {
+    const text = typeof value === 'number' ? String(Number(value.toFixed(3))) : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per block followed by one per SubArea with its totals
+export function quantityTakeoffToCsv({ subAreas, blocks }: QuantityTakeoff): string {
+    const rows: Array<Array<string | number>> = [
+        CSV_HEADER,
+        ...blocks.map(block => [
+            'Block', block.subAreaName, block.name, '', block.area, block.area / SQUARE_METRES_PER_HECTARE, block.lateralCount, block.lateralLength,
+        ]),
+        ...subAreas.map(subArea => [
+            'SubArea', subArea.name, '', subArea.blockCount, subArea.blockArea, subArea.blockArea / SQUARE_METRES_PER_HECTARE, subArea.lateralCount, subArea.lateralLength,
+        ]),
+    ];
+    return rows.map(row => row.map(csvField).join(',')).join('\n');
+}
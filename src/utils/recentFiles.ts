@@ -0,0 +1,86 @@
+import {RECENT_FILES_LIMIT} from '../config/constants';
+
+// Project files can be several MB, which is too much for localStorage, so keep them in IndexedDB
+const DB_NAME = 'pixijs-cad-poc';
+const STORE_NAME = 'recentFiles';
+
+export interface RecentFile {
+    key: string;  // Name plus content hash, so same-named files from different folders don't replace each other
+    name: string;
+    openedAt: number;
+    content: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 2);
+        request.onupgradeneeded = () => {
+            // Version 1 keyed entries by name alone; they can't be re-keyed without reading them, so start over
+            if (request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.deleteObjectStore(STORE_NAME);
+            }
+            request.result.createObjectStore(STORE_NAME, {keyPath: 'key'});
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function fileKey(name: string, content: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${name}:${hash}`;
+}
+
+async function getAllEntries(): Promise<RecentFile[]> {
+    const db = await openDatabase();
+    try {
+        const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const entries = await requestToPromise(store.getAll() as IDBRequest<RecentFile[]>);
+        return entries.sort((a, b) => b.openedAt - a.openedAt);
+    } finally {
+        db.close();
+    }
+}
+
+// Newest first, without file contents
+export async function getRecentFiles(): Promise<Array<Omit<RecentFile, 'content'>>> {
+    const entries = await getAllEntries();
+    return entries.map(({key, name, openedAt}) => ({key, name, openedAt}));
+}
+
+export async function getRecentFileContent(key: string): Promise<string | undefined> {
+    const db = await openDatabase();
+    try {
+        const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const entry = await requestToPromise(store.get(key) as IDBRequest<RecentFile | undefined>);
+        return entry?.content;
+    } finally {
+        db.close();
+    }
+}
+
+export async function addRecentFile(name: string, content: string): Promise<void> {
+    // Hash before opening the transaction, which would auto-commit while waiting on the digest
+    const key = await fileKey(name, content);
+    const db = await openDatabase();
+    try {
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        await requestToPromise(store.put({key, name, openedAt: Date.now(), content}));
+
+        const entries = (await requestToPromise(store.getAll() as IDBRequest<RecentFile[]>))
+            .sort((a, b) => b.openedAt - a.openedAt);
+        for (const stale of entries.slice(RECENT_FILES_LIMIT)) {
+            await requestToPromise(store.delete(stale.key));
+        }
+    } finally {
+        db.close();
+    }
+}
@@ -0,0 +1,48 @@
+import type {Coordinate, Shape} from '../types/shapes';
+
+// Marks clipboard text as ours so pasting arbitrary JSON is ignored
+const CLIPBOARD_FORMAT = 'pixijs-cad-poc/shapes';
+
+interface ShapeClipboard {
+    format: typeof CLIPBOARD_FORMAT;
+    version: 1;
+    shapes: Shape[];
+}
+
+function isCoordinate(value: unknown): value is Coordinate {
+    const coord = value as Coordinate;
+    return !!coord && Number.isFinite(coord.x) && Number.isFinite(coord.y);
+}
+
+function isShape(value: unknown): value is Shape {
+    const shape = value as Shape;
+    if (!shape || typeof shape.id !== 'string' || typeof shape.style !== 'object' || shape.style === null) return false;
+
+    if (shape.type === 'polygon') {
+        return Array.isArray(shape.coordinates) && shape.coordinates.length >= 3 && shape.coordinates.every(isCoordinate);
+    } else if (shape.type === 'line') {
+        return Array.isArray(shape.points) && shape.points.length >= 2 && shape.points.every(isCoordinate);
+    } else if (shape.type === 'point') {
+        return isCoordinate(shape.coordinate);
+    }
+    return false;
+}
+
+// Shapes are stored in scene coordinates; where to paste them is up to the caller
+export function shapesToClipboardText(shapes: Shape[]): string {
+    const clipboard: ShapeClipboard = {format: CLIPBOARD_FORMAT, version: 1, shapes};
+    return JSON.stringify(clipboard);
+}
+
+// Null when the text isn't something we copied; invalid shapes inside are dropped
+export function parseClipboardText(text: string): Shape[] | null {
+    let clipboard: ShapeClipboard;
+    try {
+        clipboard = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (clipboard?.format !== CLIPBOARD_FORMAT || !Array.isArray(clipboard.shapes)) return null;
+    return clipboard.shapes.filter(isShape);
+}
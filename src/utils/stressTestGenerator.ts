@@ -1,4 +1,5 @@
 import type { Shape, Coordinate } from '../types/shapes';
+import type { HierarchyEntry } from '../types/hierarchy';
 
 export interface StressTestConfig {
     targetShapeCount: number;
@@ -11,9 +12,9 @@ export interface StressTestConfig {
 /**
  * Generate irrigation-style shapes for stress testing
  * Creates SubAreas (large fields), Blocks (sections), and Laterals (irrigation lines)
- * Similar to the real project.json structure
+ * Similar to the real project.json structure, including the SubArea → Block → Lateral hierarchy
  */
-export function generateStressTestShapes(config: StressTestConfig): Shape[] {
+export function generateStressTestShapes(config: StressTestConfig): { shapes: Shape[]; hierarchy: HierarchyEntry[] } {
     const {
         targetShapeCount,
         areaWidth,
@@ -23,6 +24,7 @@ export function generateStressTestShapes(config: StressTestConfig): Shape[] {
     } = config;
 
     const shapes: Shape[] = [];
+    const hierarchy: HierarchyEntry[] = [];
 
     // Block colors (similar to real project)
     const blockColors = [
@@ -79,6 +81,12 @@ export function generateStressTestShapes(config: StressTestConfig): Shape[] {
                 },
                 label: `SubArea ${subAreaIndex + 1}`,
             });
+            hierarchy.push({
+                id: `subarea-${subAreaIndex}`,
+                type: 'subarea',
+                parentId: null,
+                number: subAreaIndex + 1,
+            });
             shapeCount++;
 
             // Create Blocks within SubArea
@@ -116,6 +124,12 @@ export function generateStressTestShapes(config: StressTestConfig): Shape[] {
                         },
                         label: `Block ${bRow * blocksPerColInSubArea + bCol + 1}`,
                     });
+                    hierarchy.push({
+                        id: `block-${subAreaIndex}-${bRow}-${bCol}`,
+                        type: 'block',
+                        parentId: `subarea-${subAreaIndex}`,
+                        number: bRow * blocksPerColInSubArea + bCol + 1,
+                    });
                     shapeCount++;
 
                     // Create Laterals (irrigation lines) within Block
@@ -139,6 +153,12 @@ export function generateStressTestShapes(config: StressTestConfig): Shape[] {
                                 borderWidth: 0.5,
                             },
                         });
+                        hierarchy.push({
+                            id: `lateral-${subAreaIndex}-${bRow}-${bCol}-${l}`,
+                            type: 'lateral',
+                            parentId: `block-${subAreaIndex}-${bRow}-${bCol}`,
+                            number: l,
+                        });
                         shapeCount++;
 
                         if (shapeCount >= targetShapeCount) break;
@@ -153,5 +173,5 @@ export function generateStressTestShapes(config: StressTestConfig): Shape[] {
     }
 
     console.log(`Generated ${shapes.length} shapes (Target: ${targetShapeCount})`);
-    return shapes;
+    return { shapes, hierarchy };
 }
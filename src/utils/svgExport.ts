@@ -0,0 +1,109 @@
+import type {Coordinate, Shape} from '../types/shapes';
+import {poleOfInaccessibility} from './geometry';
+import {LABEL_CONFIG, SVG_EXPORT_CONFIG} from '../config/constants';
+
+export interface SvgBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatPoints(coords: Coordinate[]): string {
+    return coords.map(coord => `${coord.x},${coord.y}`).join(' ');
+}
+
+// Same fill/stroke rules as ShapeManager.drawShape for an unselected shape. layerOpacity is the
+// shape's combined layer opacity, which the canvas applies on top of the style's own.
+function strokeAttributes(shape: Shape, layerOpacity: number): string {
+    const width = shape.style.borderWidth || 1;
+    const color = shape.style.borderColor || '#000000';
+    const opacity = layerOpacity < 1 ? ` stroke-opacity="${layerOpacity}"` : '';
+    return `stroke="${escapeXml(color)}"${opacity} stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round"`;
+}
+
+function fillAttributes(shape: Shape, layerOpacity: number): string {
+    if (!shape.style.fillColor) {
+        return 'fill="none"';
+    }
+    const alpha = shape.style.opacity !== undefined ? shape.style.opacity : 1;
+    return `fill="${escapeXml(shape.style.fillColor)}" fill-opacity="${alpha * layerOpacity}"`;
+}
+
+function shapeToElement(shape: Shape, layerOpacity: number): string | null {
+    if (shape.type === 'polygon') {
+        if (shape.coordinates.length === 0) return null;
+        return `<polygon points="${formatPoints(shape.coordinates)}" ${fillAttributes(shape, layerOpacity)} ${strokeAttributes(shape, layerOpacity)}/>`;
+    }
+    if (shape.type === 'line') {
+        if (shape.points.length < 2) return null;
+        return `<polyline points="${formatPoints(shape.points)}" fill="none" ${strokeAttributes(shape, layerOpacity)}/>`;
+    }
+    return `<circle cx="${shape.coordinate.x}" cy="${shape.coordinate.y}" r="${shape.radius || 5}" ${fillAttributes(shape, layerOpacity)} ${strokeAttributes(shape, layerOpacity)}/>`;
+}
+
+// Polygons are labelled where the canvas puts their labels, which stays inside concave outlines
+function labelPosition(shape: Shape): Coordinate {
+    if (shape.type === 'point') return shape.coordinate;
+    if (shape.type === 'polygon' && shape.coordinates.length >= 3) {
+        const xs = shape.coordinates.map(({ x }) => x);
+        const ys = shape.coordinates.map(({ y }) => y);
+        const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+        return poleOfInaccessibility(shape.coordinates, size * LABEL_CONFIG.precision).point;
+    }
+    const coords = shape.type === 'polygon' ? shape.coordinates : shape.points;
+    return {
+        x: coords.reduce((sum, c) => sum + c.x, 0) / coords.length,
+        y: coords.reduce((sum, c) => sum + c.y, 0) / coords.length,
+    };
+}
+
+// Render shapes into a standalone SVG whose viewBox is the given world rectangle.
+// Scene coordinates already have Y pointing down, which is what SVG expects.
+// Callers leave out hidden shapes; getLayerOpacity gives the layer opacity of the rest.
+export function shapesToSvg(
+    shapes: Shape[],
+    bounds: SvgBounds,
+    widthPx: number = SVG_EXPORT_CONFIG.widthPx,
+    getLayerOpacity: (id: string) => number = () => 1,
+): string {
+    const worldWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const worldHeight = Math.max(bounds.maxY - bounds.minY, 1);
+    const heightPx = Math.round(widthPx * (worldHeight / worldWidth));
+    const fontSize = SVG_EXPORT_CONFIG.labelFontSize * (worldWidth / widthPx);
+
+    const elements: string[] = [];
+    const labels: string[] = [];
+
+    shapes.forEach((shape) => {
+        const element = shapeToElement(shape, getLayerOpacity(shape.id));
+        if (!element) return;
+        elements.push(element);
+
+        if (shape.label) {
+            const position = labelPosition(shape);
+            labels.push(`<text x="${position.x}" y="${position.y}">${escapeXml(shape.label)}</text>`);
+        }
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${widthPx}" height="${heightPx}" viewBox="${bounds.minX} ${bounds.minY} ${worldWidth} ${worldHeight}">`,
+        '<g id="shapes">',
+        ...elements,
+        '</g>',
+        `<g id="labels" font-family="Arial, sans-serif" font-size="${fontSize}" fill="#000000" text-anchor="middle" dominant-baseline="middle">`,
+        ...labels,
+        '</g>',
+        '</svg>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,206 @@
+import polygonClipping from 'polygon-clipping';
+import type {MultiPolygon, Ring} from 'polygon-clipping';
+import type {Coordinate, PolygonShape, Shape} from '../types/shapes';
+import type {ValidationIssue} from '../types/validation';
+import type {ProjectHierarchy} from '../model/ProjectHierarchy';
+import {pointInPolygon, polygonArea, segmentIntersectionPoint} from './geometry';
+import type {Rect} from './geometry';
+import {VALIDATION_CONFIG} from '../config/constants';
+
+function boundsOf(points: Coordinate[]): Rect {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    points.forEach(({ x, y }) => {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+    });
+    return { minX, minY, maxX, maxY };
+}
+
+const centreOf = ({ minX, minY, maxX, maxY }: Rect): Coordinate => ({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 });
+
+// Clipping runs relative to a local origin so UTM-sized coordinates keep their precision
+function toRing(coordinates: Coordinate[], origin: Coordinate): Ring {
+    return coordinates.map(({ x, y }) => [x - origin.x, y - origin.y]);
+}
+
+// Self-intersecting input can occasionally defeat the clipper; skip that check rather than abort the run
+function clip(operation: 'intersection' | 'difference', subject: Ring, other: Ring): MultiPolygon {
+    try {
+        return polygonClipping[operation]([subject], [other]);
+    } catch (error) {
+        console.warn(`Polygon ${operation} failed during validation:`, error);
+        return [];
+    }
+}
+
+// Outer rings of the pieces bigger than the area tolerance, back in scene coordinates
+function significantPieces(result: MultiPolygon, origin: Coordinate): Coordinate[][] {
+    return result
+        .map(([outer]) => outer.slice(0, -1).map(([x, y]) => ({ x: x + origin.x, y: y + origin.y })))
+        .filter(ring => polygonArea(ring) > VALIDATION_CONFIG.areaTolerance);
+}
+
+// Points where non-adjacent edges of the ring cross or touch
+function selfIntersections(ring: Coordinate[]): Coordinate[] {
+    const count = ring.length;
+    const edges = ring.map((a, i) => {
+        const b = ring[(i + 1) % count];
+        return { a, b, bounds: boundsOf([a, b]) };
+    });
+
+    const points: Coordinate[] = [];
+    for (let i = 0; i < count; i++) {
+        // The last edge is adjacent to the first, so it's skipped when pairing with edge 0
+        for (let j = i + 2; j < (i === 0 ? count - 1 : count); j++) {
+            const first = edges[i];
+            const second = edges[j];
+            if (first.bounds.maxX < second.bounds.minX || second.bounds.maxX < first.bounds.minX ||
+                first.bounds.maxY < second.bounds.minY || second.bounds.maxY < first.bounds.minY) continue;
+
+            const point = segmentIntersectionPoint(first.a, first.b, second.a, second.b);
+            if (point) points.push(point);
+        }
+    }
+    return points;
+}
+
+// Parts of the line outside the polygon, split wherever it crosses the outline
+function outsideRuns(points: Coordinate[], polygon: Coordinate[]): Array<[Coordinate, Coordinate]> {
+    const runs: Array<[Coordinate, Coordinate]> = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) continue;
+
+        const cuts = [0, 1];
+        polygon.forEach((c, k) => {
+            const crossing = segmentIntersectionPoint(a, b, c, polygon[(k + 1) % polygon.length]);
+            if (crossing) cuts.push(Math.hypot(crossing.x - a.x, crossing.y - a.y) / length);
+        });
+        cuts.sort((p, q) => p - q);
+
+        const along = (t: number) => ({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+        for (let k = 0; k + 1 < cuts.length; k++) {
+            if ((cuts[k + 1] - cuts[k]) * length > VALIDATION_CONFIG.lengthTolerance &&
+                !pointInPolygon(along((cuts[k] + cuts[k + 1]) / 2), polygon)) {
+                runs.push([along(cuts[k]), along(cuts[k + 1])]);
+            }
+        }
+    }
+    return runs;
+}
+
+// Checks the project for geometry and topology problems: polygons whose outline crosses itself, blocks
+// overlapping each other (candidate pairs come from the spatial index), blocks reaching outside their
+// SubArea and laterals leaving their block. Issues are ordered by kind, then by shape.
+export function validateShapes(
+    shapes: Shape[],
+    hierarchy: ProjectHierarchy,
+    queryShapes: (bounds: Rect) => Shape[],
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+    const polygonOf = (id: string | null) => {
+        const shape = id ? shapesById.get(id) : undefined;
+        return shape?.type === 'polygon' && shape.coordinates.length >= 3 ? shape : undefined;
+    };
+    const nameOf = (shape: Shape) => {
+        const node = hierarchy.get(shape.id);
+        if (shape.label) return shape.label;
+        switch (node?.type) {
+            case 'subarea': return `SubArea ${node.number ?? node.sourceId ?? shape.id}`;
+            case 'block': return `Block ${node.number ?? node.sourceId ?? shape.id}`;
+            case 'lateral': return `Lateral ${node.number ?? node.sourceId ?? shape.id}`;
+            default: return shape.id;
+        }
+    };
+
+    shapes.forEach((shape) => {
+        if (shape.type !== 'polygon' || shape.coordinates.length < 4) return;
+
+        const points = selfIntersections(shape.coordinates);
+        if (points.length > 0) {
+            issues.push({
+                kind: 'self-intersection',
+                message: `${nameOf(shape)} outline crosses itself${points.length > 1 ? ` in ${points.length} places` : ''}`,
+                shapeIds: [shape.id],
+                location: points[0],
+                bounds: boundsOf(points),
+            });
+        }
+    });
+
+    const blocks = hierarchy.getIdsOfType('block')
+        .map(id => polygonOf(id))
+        .filter((block): block is PolygonShape => block !== undefined);
+    const blocksById = new Map(blocks.map(block => [block.id, block]));
+
+    blocks.forEach((block) => {
+        const origin = block.coordinates[0];
+        const ring = toRing(block.coordinates, origin);
+
+        // Each pair is checked once, from the block with the smaller id
+        queryShapes(boundsOf(block.coordinates))
+            .filter(other => other.id > block.id)
+            .map(other => blocksById.get(other.id))
+            .filter((other): other is PolygonShape => other !== undefined)
+            .forEach((other) => {
+                const pieces = significantPieces(clip('intersection', ring, toRing(other.coordinates, origin)), origin);
+                if (pieces.length === 0) return;
+
+                const bounds = boundsOf(pieces.flat());
+                const area = pieces.reduce((sum, piece) => sum + polygonArea(piece), 0);
+                issues.push({
+                    kind: 'block-overlap',
+                    message: `${nameOf(block)} overlaps ${nameOf(other)} by ${area.toFixed(2)} m²`,
+                    shapeIds: [block.id, other.id],
+                    location: centreOf(bounds),
+                    bounds,
+                });
+            });
+    });
+
+    blocks.forEach((block) => {
+        const subArea = polygonOf(hierarchy.getAncestorId(block.id, 'subarea'));
+        if (!subArea) return;
+
+        const origin = block.coordinates[0];
+        const pieces = significantPieces(clip('difference', toRing(block.coordinates, origin), toRing(subArea.coordinates, origin)), origin);
+        if (pieces.length === 0) return;
+
+        const bounds = boundsOf(pieces.flat());
+        const area = pieces.reduce((sum, piece) => sum + polygonArea(piece), 0);
+        issues.push({
+            kind: 'outside-subarea',
+            message: `${nameOf(block)} extends ${area.toFixed(2)} m² outside ${nameOf(subArea)}`,
+            shapeIds: [block.id, subArea.id],
+            location: centreOf(bounds),
+            bounds,
+        });
+    });
+
+    hierarchy.getIdsOfType('lateral').forEach((lateralId) => {
+        const lateral = shapesById.get(lateralId);
+        const blockId = hierarchy.getAncestorId(lateralId, 'block');
+        const block = polygonOf(blockId);
+        if (lateral?.type !== 'line' || !block) return;
+
+        const runs = outsideRuns(lateral.points, block.coordinates);
+        if (runs.length === 0) return;
+
+        const length = runs.reduce((sum, [a, b]) => sum + Math.hypot(b.x - a.x, b.y - a.y), 0);
+        const [start, end] = runs[0];
+        issues.push({
+            kind: 'lateral-outside-block',
+            message: `${nameOf(lateral)} runs ${length.toFixed(2)} m outside ${nameOf(block)}`,
+            shapeIds: [lateral.id, block.id],
+            location: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+            bounds: boundsOf(runs.flat()),
+        });
+    });
+
+    return issues;
+}